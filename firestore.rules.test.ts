@@ -0,0 +1,250 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { RulesTestEnvironment, assertFails, assertSucceeds, initializeTestEnvironment } from '@firebase/rules-unit-testing';
+import { DocumentData, Timestamp, arrayUnion, deleteDoc, deleteField, doc, getDoc, serverTimestamp, setDoc, updateDoc } from 'firebase/firestore';
+
+// Needs the Firestore emulator; run with `npm run test:rules`
+
+const CODE = 'ABC123';
+const OWNER = 'owner';
+const SENDER = 'sender';
+const STRANGER = 'stranger';
+
+let env: RulesTestEnvironment;
+
+type SignInProvider = 'anonymous' | 'google.com';
+
+const minutesFromNow = (minutes: number) => Timestamp.fromMillis(Date.now() + minutes * 60 * 1000);
+
+// Signaling users are anonymous unless they signed in with Google
+const db = (uid: string, provider: SignInProvider = 'anonymous') => {
+  return env.authenticatedContext(uid, { firebase: { sign_in_provider: provider } }).firestore();
+};
+
+const session = (uid: string) => doc(db(uid), 'signaling', CODE);
+
+const seed = (path: string, data: DocumentData) => {
+  return env.withSecurityRulesDisabled((context) => setDoc(doc(context.firestore(), path), data));
+};
+
+const claim = (uid: string) => ({
+  owner: uid,
+  senderCandidates: [],
+  receiverCandidates: [],
+  createdAt: serverTimestamp(),
+  expiresAt: minutesFromNow(10),
+});
+
+const offer = (uid: string) => ({
+  offer: '{"type":"offer"}',
+  request: '{"label":"Laptop"}',
+  answer: deleteField(),
+  rejected: false,
+  sender: uid,
+  senderCandidates: [],
+  receiverCandidates: [],
+  offerExpiresAt: minutesFromNow(2),
+});
+
+const claimed = () => seed(`signaling/${CODE}`, { ...claim(OWNER), createdAt: Timestamp.now() });
+
+const offered = (fields: DocumentData = {}) => seed(`signaling/${CODE}`, {
+  ...claim(OWNER),
+  createdAt: Timestamp.now(),
+  offer: '{"type":"offer"}',
+  request: '{"label":"Laptop"}',
+  rejected: false,
+  sender: SENDER,
+  offerExpiresAt: minutesFromNow(2),
+  ...fields,
+});
+
+beforeAll(async () => {
+  env = await initializeTestEnvironment({
+    projectId: 'demo-filejet',
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+  });
+});
+
+afterAll(() => env.cleanup());
+
+beforeEach(() => env.clearFirestore());
+
+describe('signaling claims', () => {
+  it('lets a signed-in user claim a free code for themselves', async () => {
+    await assertSucceeds(setDoc(session(OWNER), claim(OWNER)));
+  });
+
+  it('refuses claims by signed-out users, for other uids, or with too long a TTL', async () => {
+    await assertFails(setDoc(doc(env.unauthenticatedContext().firestore(), 'signaling', CODE), claim(OWNER)));
+    await assertFails(setDoc(session(STRANGER), claim(OWNER)));
+    await assertFails(setDoc(session(OWNER), { ...claim(OWNER), expiresAt: minutesFromNow(30) }));
+    await assertFails(setDoc(session(OWNER), { ...claim(OWNER), senderCandidates: ['{}'] }));
+  });
+
+  it('does not let anyone take over a live code', async () => {
+    await claimed();
+    await assertFails(setDoc(session(STRANGER), claim(STRANGER)));
+  });
+
+  it('lets the owner renew, and nobody else', async () => {
+    await claimed();
+    await assertSucceeds(updateDoc(session(OWNER), { expiresAt: minutesFromNow(10) }));
+    await assertFails(updateDoc(session(OWNER), { expiresAt: minutesFromNow(60) }));
+    await assertFails(updateDoc(session(STRANGER), { expiresAt: minutesFromNow(10) }));
+  });
+
+  it('lets the owner release the code', async () => {
+    await claimed();
+    await assertFails(deleteDoc(session(STRANGER)));
+    await assertSucceeds(deleteDoc(session(OWNER)));
+  });
+});
+
+describe('signaling offers', () => {
+  it('lets anyone offer on an open code, as themselves', async () => {
+    await claimed();
+    await assertFails(updateDoc(session(STRANGER), offer(SENDER)));
+    await assertSucceeds(updateDoc(session(SENDER), offer(SENDER)));
+  });
+
+  it('requires an offer to start both candidate lists over', async () => {
+    await claimed();
+    await assertFails(updateDoc(session(SENDER), { ...offer(SENDER), senderCandidates: ['{}'] }));
+  });
+
+  it('keeps other senders out while an offer is waiting', async () => {
+    await offered();
+    await assertFails(updateDoc(session(STRANGER), offer(STRANGER)));
+    // The sender itself reconnects by offering again
+    await assertSucceeds(updateDoc(session(SENDER), offer(SENDER)));
+  });
+
+  it('reopens the code once the offer lapses or is rejected', async () => {
+    await offered({ offerExpiresAt: Timestamp.fromMillis(Date.now() - 1000) });
+    await assertSucceeds(updateDoc(session(STRANGER), offer(STRANGER)));
+
+    await offered({ rejected: true });
+    await assertSucceeds(updateDoc(session(STRANGER), offer(STRANGER)));
+  });
+
+  it('lets only the owner answer', async () => {
+    await offered();
+    await assertFails(updateDoc(session(SENDER), { answer: '{"type":"answer"}' }));
+    await assertFails(updateDoc(session(STRANGER), { answer: '{"type":"answer"}' }));
+    await assertSucceeds(updateDoc(session(OWNER), { answer: '{"type":"answer"}' }));
+  });
+
+  it('lets only the owner reject, dropping the offer with it', async () => {
+    await offered();
+    await assertFails(updateDoc(session(SENDER), { rejected: true, offer: deleteField(), request: deleteField() }));
+    await assertFails(updateDoc(session(OWNER), { rejected: true }));
+    await assertSucceeds(updateDoc(session(OWNER), { rejected: true, offer: deleteField(), request: deleteField() }));
+  });
+
+  it('hides a waiting offer from everyone but the two peers', async () => {
+    await claimed();
+    await assertSucceeds(getDoc(session(STRANGER)));
+
+    await offered();
+    await assertSucceeds(getDoc(session(OWNER)));
+    await assertSucceeds(getDoc(session(SENDER)));
+    await assertFails(getDoc(session(STRANGER)));
+  });
+});
+
+describe('signaling candidates', () => {
+  it('lets each peer append to its own list only', async () => {
+    await offered();
+    await assertSucceeds(updateDoc(session(SENDER), { senderCandidates: arrayUnion('{"candidate":"a"}') }));
+    await assertSucceeds(updateDoc(session(OWNER), { receiverCandidates: arrayUnion('{"candidate":"b"}') }));
+    await assertFails(updateDoc(session(SENDER), { receiverCandidates: arrayUnion('{"candidate":"c"}') }));
+    await assertFails(updateDoc(session(OWNER), { senderCandidates: arrayUnion('{"candidate":"d"}') }));
+    await assertFails(updateDoc(session(STRANGER), { senderCandidates: arrayUnion('{"candidate":"e"}') }));
+  });
+
+  it('refuses sender candidates until the offer names the sender', async () => {
+    await claimed();
+    await assertFails(updateDoc(session(SENDER), { senderCandidates: arrayUnion('{"candidate":"a"}') }));
+  });
+
+  it('never drops candidates already written', async () => {
+    await offered({ senderCandidates: ['{"candidate":"a"}'] });
+    await assertFails(updateDoc(session(SENDER), { senderCandidates: ['{"candidate":"b"}'] }));
+  });
+});
+
+describe('signaling expiry', () => {
+  beforeEach(() => offered({ expiresAt: Timestamp.fromMillis(Date.now() - 1000) }));
+
+  it('lets anyone read, reclaim or delete an expired code', async () => {
+    await assertSucceeds(getDoc(session(STRANGER)));
+    await assertSucceeds(setDoc(session(STRANGER), claim(STRANGER)));
+
+    await offered({ expiresAt: Timestamp.fromMillis(Date.now() - 1000) });
+    await assertSucceeds(deleteDoc(session(STRANGER)));
+  });
+
+  it('stops the old peers from using it', async () => {
+    await assertFails(updateDoc(session(OWNER), { answer: '{"type":"answer"}' }));
+    await assertFails(updateDoc(session(OWNER), { expiresAt: minutesFromNow(10) }));
+    await assertFails(updateDoc(session(SENDER), { senderCandidates: arrayUnion('{"candidate":"a"}') }));
+    await assertFails(updateDoc(session(SENDER), offer(SENDER)));
+  });
+});
+
+describe('users/{uid}', () => {
+  const device = (id: string) => ({
+    id,
+    name: 'Laptop',
+    platform: 'macOS',
+    pairingCode: CODE,
+    online: true,
+    lastSeen: serverTimestamp(),
+  });
+
+  const contact = (id: string) => ({
+    id,
+    name: 'Alex',
+    publicKey: 'BASE64KEY',
+    policy: 'prompt',
+    autoAcceptLimit: 0,
+    addedAt: serverTimestamp(),
+  });
+
+  const devicesOf = (uid: string, provider: SignInProvider = 'google.com') => doc(db(OWNER, provider), 'users', uid, 'devices', 'device-1');
+  const contactsOf = (uid: string, provider: SignInProvider = 'google.com') => doc(db(OWNER, provider), 'users', uid, 'contacts', 'fingerprint-1');
+
+  it('lets a signed-in account owner register and read its devices', async () => {
+    await assertSucceeds(setDoc(devicesOf(OWNER), device('device-1')));
+    await assertSucceeds(getDoc(devicesOf(OWNER)));
+    await assertSucceeds(updateDoc(devicesOf(OWNER), { online: false, pairingCode: null, lastSeen: serverTimestamp() }));
+    await assertSucceeds(deleteDoc(devicesOf(OWNER)));
+  });
+
+  it('keeps anonymous users and other accounts out', async () => {
+    await assertFails(setDoc(devicesOf(OWNER, 'anonymous'), device('device-1')));
+    await assertFails(setDoc(devicesOf(STRANGER), device('device-1')));
+    await assertFails(getDoc(devicesOf(STRANGER)));
+    await assertFails(setDoc(contactsOf(OWNER, 'anonymous'), contact('fingerprint-1')));
+    await assertFails(getDoc(contactsOf(STRANGER)));
+  });
+
+  it('validates device records', async () => {
+    await assertFails(setDoc(devicesOf(OWNER), device('device-2')));
+    await assertFails(setDoc(devicesOf(OWNER), { ...device('device-1'), lastSeen: Timestamp.fromMillis(0) }));
+    await assertFails(setDoc(devicesOf(OWNER), { ...device('device-1'), extra: true }));
+  });
+
+  it('lets contacts be renamed or have their policy changed, but not their key', async () => {
+    await assertSucceeds(setDoc(contactsOf(OWNER), contact('fingerprint-1')));
+    await assertSucceeds(updateDoc(contactsOf(OWNER), { name: 'Sam', policy: 'auto-accept', autoAcceptLimit: 1024 }));
+    await assertFails(updateDoc(contactsOf(OWNER), { publicKey: 'OTHERKEY' }));
+    await assertFails(updateDoc(contactsOf(OWNER), { policy: 'always' }));
+  });
+
+  it('validates contacts', async () => {
+    await assertFails(setDoc(contactsOf(OWNER), contact('fingerprint-2')));
+    await assertFails(setDoc(contactsOf(OWNER), { ...contact('fingerprint-1'), addedAt: Timestamp.fromMillis(0) }));
+  });
+});
@@ -0,0 +1,75 @@
+// Streams received files to the browser's download manager so the page never holds them in memory.
+// The page sends file details plus a MessagePort, then navigates a hidden frame to the download URL.
+// Every chunk is acknowledged once the stream has room for more, so the page waits on the download.
+
+const DOWNLOAD_PATH = '/__filejet_download__/';
+const STREAM_BUFFER = 8 * 1024 * 1024; // 8MB
+const downloads = new Map();
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('message', (event) => {
+  const { id, name, size, type } = event.data;
+  const port = event.ports[0];
+  if (!id || !port) return;
+
+  // A chunk the page is still waiting to have acknowledged, held back until the stream drains
+  let owed = false;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      port.onmessage = ({ data }) => {
+        if (data === 'end') {
+          controller.close();
+          port.close();
+        } else if (data === 'abort') {
+          controller.error(new Error('Transfer aborted'));
+          port.close();
+        } else {
+          controller.enqueue(new Uint8Array(data));
+          if (controller.desiredSize > 0) {
+            port.postMessage('ack');
+          } else {
+            owed = true;
+          }
+        }
+      };
+    },
+    pull() {
+      if (!owed) return;
+      owed = false;
+      port.postMessage('ack');
+    },
+    cancel() {
+      port.postMessage('cancel');
+      port.close();
+    },
+  }, new ByteLengthQueuingStrategy({ highWaterMark: STREAM_BUFFER }));
+
+  downloads.set(id, { stream, name, size, type });
+  port.postMessage('ready');
+});
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (!url.pathname.startsWith(DOWNLOAD_PATH)) return;
+
+  const id = url.pathname.slice(DOWNLOAD_PATH.length);
+  const download = downloads.get(id);
+  if (!download) return;
+  downloads.delete(id);
+
+  event.respondWith(new Response(download.stream, {
+    headers: {
+      'Content-Type': download.type || 'application/octet-stream',
+      'Content-Length': String(download.size),
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(download.name)}`,
+    },
+  }));
+});
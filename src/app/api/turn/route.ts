@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TURN_RATE_LIMIT, TURN_RATE_WINDOW, authenticateTurnRequest, createRateLimiter, getTurnConfig, mintTurnCredentials } from '@/lib/turn-credentials';
+
+// Credentials are minted per request and must never be cached
+export const dynamic = 'force-dynamic';
+
+const NO_STORE = { 'Cache-Control': 'no-store' };
+const isAllowed = createRateLimiter(TURN_RATE_LIMIT, TURN_RATE_WINDOW);
+
+export async function GET(request: NextRequest) {
+  const config = getTurnConfig();
+  if (!config) {
+    return NextResponse.json({ iceServers: [], expiresAt: null }, { headers: NO_STORE });
+  }
+
+  const token = request.headers.get('authorization')?.match(/^Bearer (.+)$/)?.[1];
+  const caller = token ? await authenticateTurnRequest(token, config.auth).catch(() => null) : null;
+  if (!caller) {
+    return NextResponse.json({ error: 'Sign-in required' }, { status: 401, headers: NO_STORE });
+  }
+  if (!isAllowed(caller)) {
+    return NextResponse.json({ error: 'Too many requests' }, { status: 429, headers: { ...NO_STORE, 'Retry-After': String(TURN_RATE_WINDOW / 1000) } });
+  }
+
+  return NextResponse.json(mintTurnCredentials(config), { headers: NO_STORE });
+}
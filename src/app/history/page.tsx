@@ -0,0 +1,9 @@
+import TransferHistory from '@/components/TransferHistory';
+
+export default function HistoryPage() {
+  return (
+    <main>
+      <TransferHistory />
+    </main>
+  );
+}
@@ -0,0 +1,11 @@
+import FileJet from '@/components/FileJet';
+
+export default async function JoinPage({ params }: { params: Promise<{ code: string }> }) {
+  const { code } = await params;
+
+  return (
+    <main>
+      <FileJet joinCode={code} />
+    </main>
+  );
+}
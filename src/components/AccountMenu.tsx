@@ -0,0 +1,98 @@
+"use client"
+
+import React, { useState } from 'react';
+import { User, GoogleAuthProvider, signInWithPopup } from 'firebase/auth';
+import { LogIn, LogOut, Pencil } from 'lucide-react';
+import { useAuth } from '@/firebase';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+
+type AccountMenuProps = {
+  user: User | null;
+  loading: boolean;
+  deviceName: string;
+  onRename: (name: string) => Promise<void>;
+  onSignOut: () => Promise<void>;
+  onError: (message: string) => void;
+};
+
+/**
+ * Optional sign-in. Signed-in users see their other devices and can connect to them directly.
+ */
+export default function AccountMenu({ user, loading, deviceName, onRename, onSignOut, onError }: AccountMenuProps) {
+  const auth = useAuth();
+  const [renaming, setRenaming] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  const signIn = async () => {
+    try {
+      await signInWithPopup(auth, new GoogleAuthProvider());
+    } catch (e) {
+      if ((e as { code?: string }).code !== 'auth/popup-closed-by-user') onError('Could not sign in.');
+    }
+  };
+
+  const saveName = async () => {
+    try {
+      await onRename(draft);
+      setRenaming(false);
+    } catch (e) {
+      onError('Could not rename this device.');
+    }
+  };
+
+  if (!user) {
+    return (
+      <Button variant="outline" size="sm" className="h-8 gap-2" onClick={signIn} disabled={loading}>
+        <LogIn className="h-4 w-4" />
+        Sign In
+      </Button>
+    );
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-8 w-8 rounded-full">
+            <Avatar className="h-8 w-8">
+              {user.photoURL && <AvatarImage src={user.photoURL} alt={user.displayName ?? ''} />}
+              <AvatarFallback>{(user.displayName ?? user.email ?? '?').charAt(0).toUpperCase()}</AvatarFallback>
+            </Avatar>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>
+            <p>{user.displayName ?? user.email}</p>
+            <p className="text-xs font-normal text-muted-foreground">This device: {deviceName}</p>
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => { setDraft(deviceName); setRenaming(true); }}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Rename This Device
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => onSignOut().catch(() => onError('Could not sign out.'))}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign Out
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={renaming} onOpenChange={setRenaming}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename This Device</DialogTitle>
+            <DialogDescription>Your other devices list it under this name, e.g. "My Laptop".</DialogDescription>
+          </DialogHeader>
+          <Input value={draft} onChange={(e) => setDraft(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && saveName()} />
+          <DialogFooter>
+            <Button onClick={saveName}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
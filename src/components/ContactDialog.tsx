@@ -0,0 +1,89 @@
+"use client"
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ContactPolicy } from '@/lib/contacts';
+import { formatFingerprint } from '@/lib/identity';
+
+const MB = 1024 * 1024;
+
+export type ContactSettings = {
+  name: string;
+  policy: ContactPolicy;
+  autoAcceptLimit: number;
+};
+
+type ContactDialogProps = {
+  /** Fingerprint of the identity key being saved or edited. */
+  fingerprint: string;
+  /** Read when the dialog mounts; render it only while it is open. */
+  initial: ContactSettings;
+  onClose: () => void;
+  onSave: (settings: ContactSettings) => void;
+};
+
+/**
+ * Saves a verified peer as a contact, or edits one, along with how its connections are handled.
+ */
+export default function ContactDialog({ fingerprint, initial, onClose, onSave }: ContactDialogProps) {
+  const [name, setName] = useState(initial.name);
+  const [policy, setPolicy] = useState<ContactPolicy>(initial.policy);
+  const [limit, setLimit] = useState(String(Math.round(initial.autoAcceptLimit / MB)));
+
+  const limitMb = Number(limit);
+  const valid = name.trim() !== '' && (policy === 'prompt' || (Number.isFinite(limitMb) && limitMb >= 0));
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Trusted Contact</DialogTitle>
+          <DialogDescription>
+            Identity key <code className="font-bold">{formatFingerprint(fingerprint)}</code>. Only a peer holding this key is
+            recognized as this contact.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="contact-name">Name</Label>
+            <Input id="contact-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Dana's Laptop" />
+          </div>
+
+          <RadioGroup value={policy} onValueChange={(value) => setPolicy(value as ContactPolicy)} className="space-y-2">
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="prompt" id="policy-prompt" />
+              <Label htmlFor="policy-prompt">Always ask before connecting</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="auto-accept" id="policy-auto" />
+              <Label htmlFor="policy-auto">Connect automatically and accept files up to</Label>
+              <Input
+                type="number"
+                min={0}
+                className="h-8 w-24"
+                value={limit}
+                onChange={(e) => setLimit(e.target.value)}
+                disabled={policy !== 'auto-accept'}
+              />
+              <span className="text-sm text-muted-foreground">MB</span>
+            </div>
+          </RadioGroup>
+        </div>
+
+        <DialogFooter>
+          <Button
+            disabled={!valid}
+            onClick={() => onSave({ name: name.trim(), policy, autoAcceptLimit: policy === 'auto-accept' ? Math.round(limitMb * MB) : initial.autoAcceptLimit })}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
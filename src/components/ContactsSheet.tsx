@@ -0,0 +1,80 @@
+"use client"
+
+import React, { useState } from 'react';
+import { Pencil, Trash2, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import ContactDialog, { ContactSettings } from '@/components/ContactDialog';
+import { Contact } from '@/lib/contacts';
+import { formatFingerprint } from '@/lib/identity';
+import { formatBytes } from '@/lib/transfer-manifest';
+
+type ContactsSheetProps = {
+  contacts: Contact[];
+  onUpdate: (id: string, settings: ContactSettings) => void;
+  onRemove: (contact: Contact) => void;
+};
+
+/**
+ * Lists trusted contacts and lets the user change their policies or forget them.
+ */
+export default function ContactsSheet({ contacts, onUpdate, onRemove }: ContactsSheetProps) {
+  const [editing, setEditing] = useState<Contact | null>(null);
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="icon" className="h-8 w-8" title="Contacts">
+          <Users className="h-4 w-4" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Contacts</SheetTitle>
+          <SheetDescription>Peers you trust, recognized by their identity key.</SheetDescription>
+        </SheetHeader>
+
+        {contacts.length > 0 ? (
+          <div className="flex-1 space-y-2 overflow-y-auto">
+            {contacts.map((contact) => (
+              <div key={contact.id} className="flex items-center gap-2 p-2 rounded-md bg-secondary/30 text-sm">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="truncate font-medium">{contact.name}</p>
+                  <code className="text-xs text-muted-foreground">{formatFingerprint(contact.id)}</code>
+                  <div>
+                    <Badge variant="outline">
+                      {contact.policy === 'auto-accept' ? `Auto-accept up to ${formatBytes(contact.autoAcceptLimit)}` : 'Always ask'}
+                    </Badge>
+                  </div>
+                </div>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditing(contact)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onRemove(contact)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="flex-1 text-sm text-muted-foreground">
+            No contacts yet. Once connected, save a peer as a contact from the header to recognize it next time.
+          </p>
+        )}
+
+        {editing && (
+          <ContactDialog
+            fingerprint={editing.id}
+            initial={editing}
+            onClose={() => setEditing(null)}
+            onSave={(settings) => {
+              onUpdate(editing.id, settings);
+              setEditing(null);
+            }}
+          />
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
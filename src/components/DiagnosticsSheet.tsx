@@ -0,0 +1,141 @@
+"use client"
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Activity, FileDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Separator } from '@/components/ui/separator';
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { ConnectionSample, buildDiagnosticsReport, collectConnectionSample, describeRoute } from '@/lib/connection-stats';
+import { formatBytes } from '@/lib/transfer-manifest';
+
+const POLL_INTERVAL = 1000; // 1s
+// Roughly the last two minutes, enough to see a transfer stall in the exported report
+const MAX_SAMPLES = 120;
+
+type DiagnosticsSheetProps = {
+  /** Read on every poll, since the connection is replaced when peers reconnect. */
+  getConnection: () => { pc: RTCPeerConnection | null; channels: RTCDataChannel[] };
+};
+
+const Row = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <div className="flex items-center justify-between gap-4 text-sm">
+    <span className="text-muted-foreground">{label}</span>
+    <span className="font-medium text-right">{children}</span>
+  </div>
+);
+
+/**
+ * Live view of the peer connection's stats, for working out why a transfer is slow or stuck.
+ */
+export default function DiagnosticsSheet({ getConnection }: DiagnosticsSheetProps) {
+  const [open, setOpen] = useState(false);
+  const [samples, setSamples] = useState<ConnectionSample[]>([]);
+  const selectedPair = useRef<Record<string, unknown> | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    let previous: ConnectionSample | null = null;
+
+    const poll = async () => {
+      const { pc, channels } = getConnection();
+      if (!pc) return;
+      try {
+        const result = await collectConnectionSample(pc, channels, previous);
+        if (cancelled) return;
+        previous = result.sample;
+        selectedPair.current = result.selectedPair;
+        setSamples((current) => [...current, result.sample].slice(-MAX_SAMPLES));
+      } catch (e) {
+        console.warn('Could not read connection stats:', e);
+      }
+    };
+
+    poll();
+    const timer = setInterval(poll, POLL_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [open, getConnection]);
+
+  const latest = samples[samples.length - 1];
+
+  const exportReport = () => {
+    const report = buildDiagnosticsReport(samples, selectedPair.current);
+    const url = URL.createObjectURL(new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `filejet-diagnostics-${Date.now()}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="icon" className="h-8 w-8" title="Connection diagnostics">
+          <Activity className="h-4 w-4" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Connection Diagnostics</SheetTitle>
+          <SheetDescription>Live stats from the peer connection, updated every second.</SheetDescription>
+        </SheetHeader>
+
+        {latest ? (
+          <div className="flex-1 space-y-4 overflow-y-auto">
+            <div className="space-y-2">
+              <Row label="Route">{describeRoute(latest.localCandidateType, latest.remoteCandidateType)}</Row>
+              <Row label="Candidates">
+                <Badge variant="outline">{latest.localCandidateType ?? '—'}</Badge>
+                <span className="mx-1 text-muted-foreground">↔</span>
+                <Badge variant="outline">{latest.remoteCandidateType ?? '—'}</Badge>
+              </Row>
+              <Row label="Protocol">{latest.protocol?.toUpperCase() ?? '—'}</Row>
+              <Row label="Round trip">{latest.roundTripTime !== null ? `${latest.roundTripTime.toFixed(0)} ms` : '—'}</Row>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Row label="Sending">{formatBytes(latest.sendRate)}/s</Row>
+              <Row label="Receiving">{formatBytes(latest.receiveRate)}/s</Row>
+              <Row label="Total sent">{formatBytes(latest.bytesSent)}</Row>
+              <Row label="Total received">{formatBytes(latest.bytesReceived)}</Row>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Row label="Data channels">{latest.dataChannels}</Row>
+              <Row label="Buffered">
+                {formatBytes(latest.bufferedAmount)} / {formatBytes(latest.bufferThreshold)}
+              </Row>
+              <Progress value={Math.min(100, (latest.bufferedAmount / latest.bufferThreshold) * 100)} className="h-1.5" />
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Row label="Connection">{latest.connectionState}</Row>
+              <Row label="ICE connection">{latest.iceConnectionState}</Row>
+              <Row label="ICE gathering">{latest.iceGatheringState}</Row>
+            </div>
+          </div>
+        ) : (
+          <p className="flex-1 text-sm text-muted-foreground">No peer connection yet. Stats appear once you connect to a device.</p>
+        )}
+
+        <SheetFooter>
+          <Button variant="outline" onClick={exportReport} disabled={samples.length === 0} className="gap-2">
+            <FileDown className="w-4 h-4" /> Export Report
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
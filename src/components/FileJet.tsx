@@ -2,107 +2,275 @@
 "use client"
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Send, Download, HardDrive, ShieldCheck, Zap, X, CheckCircle2, AlertCircle, Share2, Copy } from 'lucide-react';
+import Link from 'next/link';
+import { Send, Download, HardDrive, ShieldCheck, Zap, X, CheckCircle2, AlertCircle, Share2, Copy, FolderUp, FileIcon, ScanLine, Link2, UserCheck, UserPlus, History } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { ScrollArea } from '@/components/ui/scroll-area';
 import { useToast } from '@/hooks/use-toast';
-import { RTC_CONFIG, CHUNK_SIZE, BUFFER_THRESHOLD } from '@/lib/webrtc-config';
-import { generateId, createSignalingSession, respondToSignalingSession, addIceCandidate } from '@/lib/signaling';
-import { useFirestore } from '@/firebase';
-import { doc, onSnapshot } from 'firebase/firestore';
+import { getRtcConfig, RECONNECT_DELAY, MAX_RECONNECT_ATTEMPTS } from '@/lib/webrtc-config';
+import { createSendScheduler, readChunks } from '@/lib/send-scheduler';
+import { CONTROL_CHANNEL_LABEL, getDataChannelCount, getLaneLabel, isLaneLabel } from '@/lib/data-lanes';
+import { CompletePayload, Frame, FrameType, HelloPayload, PROTOCOL_VERSION, SUPPORTED_VERSIONS, decodeDigest, decodeFrame, decodeJsonPayload, decodeMetadata, encodeAck, encodeCancel, encodeComplete, encodeContinue, encodeData, encodeDigest, encodeEof, encodeHello, encodeIdentity, encodeMetadata, encodePause, encodeRestart, encodeResume, encodeResumeQuery, encodeText, negotiateVersion, supportsFrameType, TextPayload } from '@/lib/wire-protocol';
+import { SessionRequest, SignalingError, SignalingSession, PAIRING_CODE_RENEW_INTERVAL } from '@/lib/signaling';
+import { normalizePairingCode, isValidPairingCode } from '@/lib/pairing-code';
+import { buildJoinUrl } from '@/lib/join-link';
+import { getDeviceLabel } from '@/lib/device';
+import { IDENTITY_TIMEOUT, IdentityPayload, getIdentity, signSession, verifySession } from '@/lib/identity';
+import { DEFAULT_AUTO_ACCEPT_LIMIT, shouldAutoAccept } from '@/lib/contacts';
+import { ThroughputEstimator, ThroughputPoint, THROUGHPUT_SAMPLE_INTERVAL, createThroughputEstimator } from '@/lib/throughput';
+import { TransferManifest, getFileOffsets, getBaseName, formatBytes, writeToDirectory } from '@/lib/transfer-manifest';
+import { MAX_TEXT_MESSAGE_SIZE, TextMessage, addTextMessage, createTextMessage, getTextSize } from '@/lib/text-messages';
+import { TransferDirection, TransferResult, addHistoryEntries, createHistoryEntries, getFileResults } from '@/lib/transfer-history';
+import { QueuedTransfer, createQueuedTransfer, describeTransfer, getQueueManifest, moveQueuedTransfer, removeQueuedTransfer } from '@/lib/transfer-queue';
+import { IncomingTransfer, OutgoingTransfer, createIncomingTransfer, createOutgoingTransfer, pauseOutgoingTransfer, continueOutgoingTransfer, cancelOutgoingTransfer, waitWhilePaused, acknowledgeOutgoingTransfer, waitForSendWindow, takeAcknowledgement, acceptChunk, exceedsManifest, isIncomingTransferDone, getResumeOffset, finalizeCompletedFiles, abortIncomingTransfer, locateOffset, verifyIncomingTransfer } from '@/lib/transfer-session';
+import { ChannelRole, SecureChannel, createSecureChannel } from '@/lib/secure-channel';
+import { FileSink, SinkKind, createDefaultSink, pickFileSystemSink, shouldStreamToDisk, supportsFileSystemAccess } from '@/lib/file-sink';
+import IncomingConnectionDialog from '@/components/IncomingConnectionDialog';
+import PairingQrCode from '@/components/PairingQrCode';
+import QrScannerDialog from '@/components/QrScannerDialog';
+import DiagnosticsSheet from '@/components/DiagnosticsSheet';
+import TransferSpeed from '@/components/TransferSpeed';
+import TransferQueue from '@/components/TransferQueue';
+import TransferControls from '@/components/TransferControls';
+import TextComposer from '@/components/TextComposer';
+import TextHistory from '@/components/TextHistory';
+import AccountMenu from '@/components/AccountMenu';
+import MyDevices from '@/components/MyDevices';
+import ContactDialog, { ContactSettings } from '@/components/ContactDialog';
+import ContactsSheet from '@/components/ContactsSheet';
+import { useSignaling } from '@/hooks/use-signaling';
+import { useDevices } from '@/hooks/use-devices';
+import { useContacts } from '@/hooks/use-contacts';
+import { DeviceRecord } from '@/lib/devices';
 
-export default function FileJet() {
-  const db = useFirestore();
+type TransferSpeedState = { rate: number; transferred: number; history: ThroughputPoint[] };
+
+const IDLE_SPEED: TransferSpeedState = { rate: 0, transferred: 0, history: [] };
+
+type FileJetProps = {
+  /** Pairing code from a join link; FileJet connects to it as soon as it mounts. */
+  joinCode?: string;
+};
+
+export default function FileJet({ joinCode }: FileJetProps) {
+  const signaling = useSignaling();
   const [myId, setMyId] = useState('');
   const [recipientId, setRecipientId] = useState('');
   const [connectionStatus, setConnectionStatus] = useState<'disconnected' | 'connecting' | 'connected'>('disconnected');
-  const [transferMode, setTransferMode] = useState<'idle' | 'sending' | 'receiving'>('idle');
-  const [progress, setProgress] = useState(0);
-  const [fileName, setFileName] = useState('');
-  const [fileSize, setFileSize] = useState(0);
-  const [receivedFile, setReceivedFile] = useState<Blob | null>(null);
+  const [channelRole, setChannelRole] = useState<ChannelRole | null>(null);
+  // Both peers can send and receive at once, so each direction is tracked on its own
+  const [sendManifest, setSendManifest] = useState<TransferManifest | null>(null);
+  const [sendFileName, setSendFileName] = useState('');
+  const [sendProgress, setSendProgress] = useState(0);
+  const [sendPaused, setSendPaused] = useState(false);
+  const [sendSpeed, setSendSpeed] = useState<TransferSpeedState>(IDLE_SPEED);
+  const [receiveManifest, setReceiveManifest] = useState<TransferManifest | null>(null);
+  const [receiveProgress, setReceiveProgress] = useState(0);
+  const [receivePaused, setReceivePaused] = useState(false);
+  const [receiveSpeed, setReceiveSpeed] = useState<TransferSpeedState>(IDLE_SPEED);
+  const [bytesReceived, setBytesReceived] = useState(0);
+  const [receivedFiles, setReceivedFiles] = useState<(Blob | null)[]>([]);
+  const [sinkKind, setSinkKind] = useState<SinkKind | null>(null);
+  const [failedFiles, setFailedFiles] = useState<number[] | null>(null);
+  const [pendingSave, setPendingSave] = useState<{ id: string; manifest: TransferManifest } | null>(null);
+  // A transfer from a peer we connected to without asking, held until the contact's limit allows it or the user does
+  const [pendingApproval, setPendingApproval] = useState<{ id: string; manifest: TransferManifest } | null>(null);
+  // Finished in-memory transfers, kept downloadable while the next one in the sender's queue arrives
+  const [receivedEarlier, setReceivedEarlier] = useState<{ id: string; manifest: TransferManifest; files: (Blob | null)[]; failed: number[] }[]>([]);
+  const [reconnectAttempts, setReconnectAttempts] = useState(0);
+  const [verificationCode, setVerificationCode] = useState('');
+  // Framing protocol version agreed with the peer; nothing but HELLO is sent before it is known
+  const [protocolVersion, setProtocolVersion] = useState<number | null>(null);
+  const protocolVersionRef = useRef<number | null>(null);
+  const [codeConfirmed, setCodeConfirmed] = useState(false);
+  // Set once the peer has signed this session with its identity key
+  const [peerIdentity, setPeerIdentity] = useState<{ fingerprint: string; publicKey: string } | null>(null);
+  const [savingContact, setSavingContact] = useState(false);
+  const [incomingRequest, setIncomingRequest] = useState<{ offer: RTCSessionDescriptionInit; request: SessionRequest } | null>(null);
+  const [queue, setQueue] = useState<QueuedTransfer[]>([]);
+  const [textMessages, setTextMessages] = useState<TextMessage[]>([]);
+  const [scannerOpen, setScannerOpen] = useState(false);
+  const joinHandled = useRef(false);
   
   const peerConnection = useRef<RTCPeerConnection | null>(null);
   const dataChannel = useRef<RTCDataChannel | null>(null);
+  const secureChannel = useRef<SecureChannel | null>(null);
+  // Extra data channels chunks are striped across; lanes that open before the control channel wait in pendingLanes
+  const dataLanes = useRef<SecureChannel[]>([]);
+  const pendingLanes = useRef<RTCDataChannel[]>([]);
+  const attachLane = useRef<((lane: RTCDataChannel) => void) | null>(null);
+  const incomingTransfer = useRef<IncomingTransfer | null>(null);
+  // The transfer the sender last announced, from its METADATA until it is received, cancelled or discarded
+  const announcedTransferId = useRef<string | null>(null);
+  const outgoingTransfer = useRef<OutgoingTransfer | null>(null);
+  // Fingerprint a contact claimed when its connection was accepted automatically; the session must prove it
+  const autoAccepted = useRef<string | null>(null);
+  const identityTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  // The contact saved from the current connection, which proves nothing about that connection
+  const savedContactId = useRef<string | null>(null);
+  // Who the peer is, as far as we know, for the transfer history
+  const peerLabel = useRef('');
+  const sessionTarget = useRef('');
+  const handledOffer = useRef('');
+  const folderInput = useRef<HTMLInputElement | null>(null);
+  const sendThroughput = useRef(createThroughputEstimator());
+  const receiveThroughput = useRef(createThroughputEstimator());
   const { toast } = useToast();
+  const { user, loading: userLoading, deviceName, devices, rename: renameDevice, forget: forgetDevice, signOut: signOutDevice } = useDevices(myId);
+  const { contacts, peerContact, save: saveContact, update: updateContact, remove: removeContact } = useContacts(user, peerIdentity?.fingerprint ?? null);
 
-  // Initialize My ID and listen for incoming connections
+  // Claim a pairing code and listen for incoming connections
   useEffect(() => {
-    const id = generateId();
-    setMyId(id);
-
-    if (!db) return;
-
-    // Listen to our own ID for incoming offers
-    const myDocRef = doc(db, 'signaling', id);
-    const unsubscribe = onSnapshot(myDocRef, async (snapshot) => {
-      const data = snapshot.data();
-      if (!data) return;
-
-      // Case: Someone sent us an offer
-      if (data.offer && !peerConnection.current) {
-        setConnectionStatus('connecting');
-        const pc = setupPeerConnection(id, 'receiver');
-        
-        // Listen for data channel
-        pc.ondatachannel = (event) => {
-          dataChannel.current = event.channel;
-          setupDataChannelEvents(event.channel);
-        };
-
-        const offer = JSON.parse(data.offer);
-        await pc.setRemoteDescription(new RTCSessionDescription(offer));
-        const answer = await pc.createAnswer();
-        await pc.setLocalDescription(answer);
-        
-        respondToSignalingSession(db, id, answer);
+    if (!signaling) return;
+
+    let cancelled = false;
+    let id = '';
+    let unsubscribe = () => {};
+    let renewTimer: ReturnType<typeof setInterval> | undefined;
+
+    const handleSignal = (session: SignalingSession | null) => {
+      if (!session) return;
+
+      // Case: Someone sent us an offer (a reconnecting sender writes a fresh one); ask before answering
+      if (session.offer?.sdp && !session.rejected && !peerConnection.current && session.offer.sdp !== handledOffer.current) {
+        handledOffer.current = session.offer.sdp;
+        setIncomingRequest({ offer: session.offer, request: session.request ?? { label: 'Unknown device' } });
       }
 
       // Case: Handle incoming ICE candidates for the receiver role
-      if (data.senderCandidates && peerConnection.current) {
-        data.senderCandidates.forEach(async (candStr: string) => {
+      if (peerConnection.current) {
+        session.senderCandidates.forEach(async (init) => {
           try {
-            const candidate = new RTCIceCandidate(JSON.parse(candStr));
-            await peerConnection.current?.addIceCandidate(candidate);
+            await peerConnection.current?.addIceCandidate(new RTCIceCandidate(init));
           } catch (e) {}
         });
       }
+    };
+
+    signaling.claimCode().then((code) => {
+      if (cancelled) {
+        signaling.releaseCode(code).catch(() => undefined);
+        return;
+      }
+      id = code;
+      setMyId(code);
+      // Listen to our own code for incoming offers
+      unsubscribe = signaling.subscribe(code, handleSignal);
+      renewTimer = setInterval(() => signaling.renewCode(code).catch(() => undefined), PAIRING_CODE_RENEW_INTERVAL);
+    }).catch(() => {
+      toast({ variant: "destructive", title: "Pairing Unavailable", description: "Could not claim a pairing code. Reload to try again." });
     });
 
-    return () => unsubscribe();
-  }, [db]);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      clearInterval(renewTimer);
+      if (id) signaling.releaseCode(id).catch(() => undefined);
+    };
+  }, [signaling, toast]);
+
+  // Signing out changes the uid, after which the rules won't let us release the code this one claimed
+  const signOut = useCallback(async () => {
+    if (signaling && myId) await signaling.releaseCode(myId).catch(() => undefined);
+    await signOutDevice();
+  }, [signaling, myId, signOutDevice]);
+
+  const discardIncoming = useCallback(() => {
+    const transfer = incomingTransfer.current;
+    if (transfer && !transfer.complete) abortIncomingTransfer(transfer);
+    incomingTransfer.current = null;
+  }, []);
+
+  /**
+   * Logs a transfer that has ended to the local history. Losing an entry isn't worth bothering anyone about.
+   */
+  const recordHistory = useCallback((transfer: IncomingTransfer | OutgoingTransfer, direction: TransferDirection, result: TransferResult | TransferResult[], hashes?: (string | null)[]) => {
+    addHistoryEntries(createHistoryEntries(transfer, direction, peerLabel.current, result, hashes)).catch(() => undefined);
+  }, []);
+
+  const resetOutgoing = useCallback(() => {
+    if (outgoingTransfer.current) cancelOutgoingTransfer(outgoingTransfer.current);
+    outgoingTransfer.current = null;
+    setSendManifest(null);
+    setSendProgress(0);
+    setSendPaused(false);
+    setSendSpeed(IDLE_SPEED);
+  }, []);
+
+  const resetIncoming = useCallback(() => {
+    discardIncoming();
+    announcedTransferId.current = null;
+    setReceiveManifest(null);
+    setReceiveProgress(0);
+    setReceivePaused(false);
+    setBytesReceived(0);
+    setReceiveSpeed(IDLE_SPEED);
+    setReceivedFiles([]);
+    setSinkKind(null);
+    setFailedFiles(null);
+    setPendingSave(null);
+    setPendingApproval(null);
+  }, [discardIncoming]);
+
+  const resetTransfer = useCallback(() => {
+    resetOutgoing();
+    resetIncoming();
+  }, [resetOutgoing, resetIncoming]);
 
   const cleanup = useCallback(() => {
     if (dataChannel.current) {
       dataChannel.current.close();
       dataChannel.current = null;
     }
+    dataLanes.current.forEach((lane) => lane.channel.close());
+    dataLanes.current = [];
+    pendingLanes.current = [];
+    attachLane.current = null;
+    secureChannel.current = null;
     if (peerConnection.current) {
       peerConnection.current.close();
       peerConnection.current = null;
     }
     setConnectionStatus('disconnected');
-    setTransferMode('idle');
-    setProgress(0);
-    setReceivedFile(null);
-  }, []);
+    setVerificationCode('');
+    setCodeConfirmed(false);
+    setProtocolVersion(null);
+    protocolVersionRef.current = null;
+    setPeerIdentity(null);
+    savedContactId.current = null;
+    clearTimeout(identityTimer.current);
+
+    // Interrupted transfers are kept so they can pick up where they left off after reconnecting. So are
+    // completed incoming ones: their files may not be saved yet, and the sender may not have had our COMPLETE
+    if (!outgoingTransfer.current) resetOutgoing();
+    if (!incomingTransfer.current) resetIncoming();
+  }, [resetOutgoing, resetIncoming]);
 
-  const setupPeerConnection = useCallback((sessionId: string, role: 'sender' | 'receiver') => {
-    const pc = new RTCPeerConnection(RTC_CONFIG);
+  /**
+   * Candidates are held until `sessionReady` resolves, and dropped if it resolves to false.
+   */
+  const setupPeerConnection = useCallback((sessionId: string, role: 'sender' | 'receiver', config: RTCConfiguration, sessionReady: Promise<boolean> = Promise.resolve(true)) => {
+    const pc = new RTCPeerConnection(config);
     
     pc.onicecandidate = (event) => {
-      if (event.candidate && db) {
-        addIceCandidate(db, sessionId, event.candidate, role === 'sender' ? 'sender' : 'receiver');
+      if (event.candidate && signaling) {
+        const candidate = event.candidate.toJSON();
+        sessionReady
+          .then((ready) => (ready ? signaling.addIceCandidate(sessionId, candidate, role) : undefined))
+          .catch(() => undefined);
       }
     };
 
     pc.onconnectionstatechange = () => {
+      if (peerConnection.current !== pc) return;
       if (pc.connectionState === 'connected') {
         setConnectionStatus('connected');
+        setReconnectAttempts(0);
         toast({ title: "Connected", description: "P2P connection established!" });
       } else if (pc.connectionState === 'disconnected' || pc.connectionState === 'failed') {
         cleanup();
@@ -112,177 +280,851 @@ export default function FileJet() {
 
     peerConnection.current = pc;
     return pc;
-  }, [db, cleanup, toast]);
+  }, [signaling, cleanup, toast]);
 
-  const setupDataChannelEvents = useCallback((dc: RTCDataChannel) => {
-    let receivedChunks: Uint8Array[] = [];
-    let bytesReceived = 0;
-    let expectedSize = 0;
+  /**
+   * Logs and clears an outgoing transfer the receiver has finished with, given the files it says did not arrive intact.
+   */
+  const finishOutgoing = useCallback((transfer: OutgoingTransfer, failed: number[]) => {
+    const count = transfer.files.length;
+    Promise.all(transfer.digests)
+      .then((digests) => digests.map(({ treeHash }) => treeHash), () => [])
+      .then((hashes) => recordHistory(transfer, 'sent', getFileResults(transfer.manifest, failed), hashes));
+    resetOutgoing();
+    if (failed.length > 0) {
+      toast({ variant: "destructive", title: "Transfer Incomplete", description: `${failed.length} of ${count} files did not arrive intact.` });
+    } else {
+      toast({ title: "Success", description: count === 1 ? "File sent successfully!" : `${count} files sent successfully!` });
+    }
+  }, [resetOutgoing, recordHistory, toast]);
+
+  /**
+   * Streams an outgoing transfer starting at the given offset of the transfer stream.
+   */
+  const streamTransfer = useCallback((channel: SecureChannel, transfer: OutgoingTransfer, startOffset: number) => {
+    const dc = channel.channel;
+    const { files, manifest: outgoing } = transfer;
+    const sctp = peerConnection.current?.sctp ?? null;
+    const version = protocolVersionRef.current ?? PROTOCOL_VERSION;
+    // Peers that acknowledge writes hold the sender to a window; older ones take whatever is sent
+    const flowControlled = supportsFrameType(version, FrameType.Ack);
+    // Chunks go round-robin over every open lane; each lane has its own pacing and one send in flight
+    const lanes = [channel, ...dataLanes.current]
+      .filter((lane) => lane.channel.readyState === 'open')
+      .map((lane) => ({ lane, scheduler: createSendScheduler(sctp, lane.channel), last: Promise.resolve() }));
+    const chunkSize = lanes[0].scheduler.chunkSize;
+    let nextLane = 0;
+    let { index: fileIndex, fileOffset } = locateOffset(outgoing, startOffset);
+    let reader = fileIndex < files.length ? readChunks(files[fileIndex], fileOffset, chunkSize) : null;
+    let offset = startOffset;
+    sendThroughput.current.reset(startOffset);
+    acknowledgeOutgoingTransfer(transfer, startOffset, true);
 
-    dc.onopen = () => {
-      setConnectionStatus('connected');
+    setSendFileName(files.length === 1 ? outgoing.files[0].path : outgoing.files[Math.min(fileIndex, files.length - 1)].path);
+    setSendProgress(outgoing.totalSize ? (offset / outgoing.totalSize) * 100 : 0);
+
+    const sendDigest = async (index: number) => {
+      const digest = await transfer.digests[index];
+      if (secureChannel.current !== channel || dc.readyState !== 'open') return;
+      await channel.send(encodeDigest(transfer.id, index, digest, version));
     };
 
-    dc.onclose = () => {
-      cleanup();
+    const handleSendError = () => {
+      // A channel dropping mid-send is handled by the reconnect logic
+      if (dc.readyState === 'open' && !transfer.cancelled) {
+        toast({ variant: "destructive", title: "Transfer Failed", description: "An error occurred." });
+        resetOutgoing();
+      }
     };
 
-    dc.onmessage = (event) => {
-      if (typeof event.data === 'string') {
-        try {
-          const msg = JSON.parse(event.data);
-          if (msg.type === 'metadata') {
-            setFileName(msg.name);
-            setFileSize(msg.size);
-            expectedSize = msg.size;
-            setTransferMode('receiving');
-            receivedChunks = [];
-            bytesReceived = 0;
-            setProgress(0);
-          } else if (msg.type === 'eof') {
-            const blob = new Blob(receivedChunks);
-            setReceivedFile(blob);
-            setProgress(100);
-            toast({ title: "Received", description: "File transfer complete!" });
+    const sendNextChunk = async () => {
+      try {
+        while (true) {
+          // A reconnect replaces the channel; the old loop must stop rather than race the new one
+          if (secureChannel.current !== channel || dc.readyState !== 'open' || transfer.cancelled) break;
+          if (transfer.paused) {
+            await waitWhilePaused(transfer);
+            continue;
+          }
+
+          if (!reader) {
+            await Promise.all(lanes.map(({ last }) => last));
+            // The transfer stays pending until the receiver confirms it with COMPLETE
+            await channel.send(encodeEof(transfer.id, version));
+            // Peers before COMPLETE never confirm, so the transfer is done once it is all sent
+            if (!supportsFrameType(version, FrameType.Complete)) finishOutgoing(transfer, []);
+            return;
+          }
+
+          const { done, value } = await reader.next();
+          if (done) {
+            await sendDigest(fileIndex);
+            fileIndex++;
+            reader = fileIndex < files.length ? readChunks(files[fileIndex], 0, chunkSize) : null;
+            if (reader) setSendFileName(outgoing.files[fileIndex].path);
+            continue;
           }
-        } catch (e) {
-          console.error("Message error:", e);
+
+          const target = lanes[nextLane];
+          nextLane = (nextLane + 1) % lanes.length;
+          if (flowControlled) await waitForSendWindow(transfer, offset);
+          await target.last;
+          await target.scheduler.waitForCapacity();
+          if (secureChannel.current !== channel || target.lane.channel.readyState !== 'open' || transfer.cancelled) break;
+
+          const frame = encodeData(transfer.id, offset, value, version);
+          target.last = target.lane.send(frame).then(() => target.scheduler.sent(frame.byteLength));
+          offset += value.byteLength;
+          sendThroughput.current.record(offset);
+          setSendProgress(outgoing.totalSize ? (offset / outgoing.totalSize) * 100 : 100);
         }
-      } else {
-        receivedChunks.push(new Uint8Array(event.data));
-        bytesReceived += event.data.byteLength;
-        setProgress((bytesReceived / expectedSize) * 100);
+      } catch (err) {
+        handleSendError();
       }
     };
-  }, [cleanup, toast]);
 
-  const handleSendFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+    // The receiver may have missed digests of files finished before a reconnect, so send them again
+    const start = async () => {
+      try {
+        for (let i = 0; i < fileIndex; i++) {
+          await sendDigest(i);
+        }
+      } catch (err) {
+        handleSendError();
+        return;
+      }
+      sendNextChunk();
+    };
 
-    const dc = dataChannel.current;
-    if (!dc || dc.readyState !== 'open') {
-      toast({ 
-        variant: "destructive",
-        title: "Connection Required", 
-        description: "Please wait for the connection to be fully established." 
-      });
+    start();
+  }, [resetOutgoing, finishOutgoing, toast]);
+
+  const publishIncoming = useCallback((transfer: IncomingTransfer) => {
+    if (incomingTransfer.current !== transfer) return;
+    setReceivedFiles([...transfer.completedFiles]);
+    setBytesReceived(transfer.bytesReceived);
+    setReceiveProgress(transfer.manifest.totalSize ? (transfer.bytesReceived / transfer.manifest.totalSize) * 100 : 100);
+  }, []);
+
+  /**
+   * Starts receiving into the given sink and tells the sender to begin streaming.
+   */
+  const beginReceiving = useCallback((id: string, incoming: TransferManifest, sink: FileSink) => {
+    // Cancelled while the sink was being set up
+    if (announcedTransferId.current !== id) {
+      sink.abort();
       return;
     }
+    const transfer = createIncomingTransfer(id, incoming, sink);
+    incomingTransfer.current = transfer;
+    receiveThroughput.current.reset(0);
+    setPendingSave(null);
+    setSinkKind(sink.kind);
+    publishIncoming(transfer);
+    transfer.pending.then(() => publishIncoming(transfer));
 
-    setFileName(file.name);
-    setFileSize(file.size);
-    setTransferMode('sending');
-    setProgress(0);
+    secureChannel.current?.send(encodeResume(id, 0, protocolVersionRef.current ?? PROTOCOL_VERSION));
+  }, [publishIncoming]);
 
-    try {
-      dc.send(JSON.stringify({ type: 'metadata', name: file.name, size: file.size }));
+  const prepareReceiving = useCallback((id: string, incoming: TransferManifest) => {
+    // Writing to a picked file needs a user gesture, so large transfers wait for the receiver to choose
+    if (shouldStreamToDisk(incoming) && supportsFileSystemAccess()) {
+      setPendingSave({ id, manifest: incoming });
+    } else {
+      setPendingSave(null);
+      createDefaultSink(incoming).then((sink) => beginReceiving(id, incoming, sink));
+    }
+  }, [beginReceiving]);
 
-      const reader = file.stream().getReader();
-      let offset = 0;
+  /**
+   * Tells the sender the transfer is done, and which files did not make it. Call once the pending chain has settled.
+   */
+  const sendComplete = useCallback((transfer: IncomingTransfer) => {
+    const version = protocolVersionRef.current;
+    if (version === null || !supportsFrameType(version, FrameType.Complete)) return;
+    const failed = transfer.error ? transfer.manifest.files.map((_, i) => i) : verifyIncomingTransfer(transfer);
+    secureChannel.current?.send(encodeComplete(transfer.id, failed, version)).catch(() => undefined);
+  }, []);
 
-      const sendNextChunk = async () => {
-        while (true) {
-          if (!dataChannel.current || dataChannel.current.readyState !== 'open') break;
+  /**
+   * Closes out a transfer once every byte is in, then checks it against the sender's digests.
+   */
+  const finishIncoming = useCallback((transfer: IncomingTransfer) => {
+    if (transfer.complete) {
+      // The sender resumed it after a reconnect because our COMPLETE never arrived
+      transfer.pending.then(() => sendComplete(transfer));
+      return;
+    }
+    finalizeCompletedFiles(transfer);
+    transfer.complete = true;
+    transfer.pending.then(() => {
+      if (incomingTransfer.current !== transfer) return;
+      publishIncoming(transfer);
+      sendComplete(transfer);
+      const count = transfer.manifest.files.length;
+      const failed = verifyIncomingTransfer(transfer);
+      setFailedFiles(failed);
+      recordHistory(transfer, 'received', transfer.error ? 'failed' : getFileResults(transfer.manifest, failed), transfer.digests.map(({ treeHash }) => treeHash));
 
-          if (dc.bufferedAmount > BUFFER_THRESHOLD) {
-            dc.onbufferedamountlow = () => {
-              dc.onbufferedamountlow = null;
-              sendNextChunk();
-            };
-            return;
-          }
+      if (transfer.error) {
+        toast({ variant: "destructive", title: "Save Failed", description: "Received data could not be written to disk." });
+      } else if (failed.length > 0) {
+        toast({ variant: "destructive", title: "Integrity Check Failed", description: `${failed.length} of ${count} files do not match what was sent.` });
+      } else {
+        toast({ title: "Received", description: count === 1 ? "File transfer complete and verified!" : `${count} files received and verified!` });
+      }
+    });
+  }, [publishIncoming, sendComplete, recordHistory, toast]);
 
-          const { done, value } = await reader.read();
-          if (done) {
-            if (dataChannel.current.readyState === 'open') {
-              dc.send(JSON.stringify({ type: 'eof' }));
-            }
-            toast({ title: "Success", description: "File sent successfully!" });
+  /**
+   * Pauses or continues a transfer on this side, whichever peer asked for it.
+   */
+  const applyPause = useCallback((id: string, pause: boolean) => {
+    const outgoing = outgoingTransfer.current;
+    if (outgoing?.id === id) {
+      if (pause) pauseOutgoingTransfer(outgoing);
+      else continueOutgoingTransfer(outgoing);
+      setSendPaused(pause);
+    } else if (incomingTransfer.current?.id === id) {
+      setReceivePaused(pause);
+    }
+  }, []);
+
+  const setupDataChannelEvents = useCallback((dc: RTCDataChannel, role: ChannelRole) => {
+    setChannelRole(role);
+    dc.onclose = () => {
+      if (dataChannel.current === dc) cleanup();
+    };
+
+    const handleFrame = (frame: Frame) => {
+      if (frame.type === FrameType.Hello) {
+        const { versions } = decodeJsonPayload<HelloPayload>(frame);
+        const version = negotiateVersion(SUPPORTED_VERSIONS, versions);
+        if (version === null) {
+          toast({ variant: "destructive", title: "Incompatible Version", description: "Your peer runs a FileJet version this one can't talk to. Update both and try again." });
+          cleanup();
+          return;
+        }
+        protocolVersionRef.current = version;
+        setProtocolVersion(version);
+
+        if (supportsFrameType(version, FrameType.Identity)) {
+          getIdentity()
+            .then(async (identity) => channel.send(encodeIdentity(await signSession(identity, await channel.getSessionBinding()), version)))
+            .catch(() => undefined);
+        }
+
+        // Ask the receiver how far it got before the connection dropped
+        const pending = outgoingTransfer.current;
+        if (pending) channel.send(encodeResumeQuery(pending.id, version));
+        return;
+      }
+
+      if (frame.type === FrameType.Data) {
+        const transfer = incomingTransfer.current;
+        if (!transfer || transfer.complete || transfer.id !== frame.transferId) return;
+        // Never take more than was approved
+        if (exceedsManifest(transfer, frame.offset, frame.payload)) {
+          if (supportsFrameType(frame.version, FrameType.Cancel)) channel.send(encodeCancel(transfer.id, frame.version)).catch(() => undefined);
+          recordHistory(transfer, 'received', 'failed');
+          resetIncoming();
+          toast({ variant: "destructive", title: "Transfer Stopped", description: "Your peer sent more data than it announced." });
+          return;
+        }
+        const completed = acceptChunk(transfer, frame.offset, frame.payload);
+        receiveThroughput.current.record(transfer.bytesReceived);
+        const acknowledged = takeAcknowledgement(transfer);
+        if (acknowledged !== null && supportsFrameType(frame.version, FrameType.Ack)) {
+          // Only once it is written, so the sender waits on our disk rather than our memory
+          transfer.pending.then(() => {
+            if (secureChannel.current === channel) channel.send(encodeAck(transfer.id, acknowledged, frame.version)).catch(() => undefined);
+          });
+        }
+        if (isIncomingTransferDone(transfer)) {
+          finishIncoming(transfer);
+        } else if (completed) {
+          transfer.pending.then(() => publishIncoming(transfer));
+        } else {
+          setBytesReceived(transfer.bytesReceived);
+          setReceiveProgress(transfer.manifest.totalSize ? (transfer.bytesReceived / transfer.manifest.totalSize) * 100 : 100);
+        }
+      } else if (frame.type === FrameType.Metadata) {
+        const id = frame.transferId!;
+        const incoming = decodeMetadata(frame);
+        const previous = incomingTransfer.current;
+        if (previous?.complete && previous.sink.kind === 'memory' && !previous.error) {
+          const entry = { id: previous.id, manifest: previous.manifest, files: previous.completedFiles, failed: verifyIncomingTransfer(previous) };
+          setReceivedEarlier((earlier) => [entry, ...earlier.filter(({ id: earlierId }) => earlierId !== entry.id)]);
+        }
+        discardIncoming();
+        announcedTransferId.current = id;
+        setReceiveManifest(incoming);
+        setReceivePaused(false);
+        setReceivedFiles([]);
+        setBytesReceived(0);
+        setReceiveProgress(0);
+        setSinkKind(null);
+        setFailedFiles(null);
+
+        // Either side may send, so every transfer waits for the user or a contact policy that covers it
+        setPendingSave(null);
+        setPendingApproval({ id, manifest: incoming });
+      } else if (frame.type === FrameType.Eof) {
+        const transfer = incomingTransfer.current;
+        if (!transfer || transfer.id !== frame.transferId) return;
+        transfer.eofReceived = true;
+        if (isIncomingTransferDone(transfer)) finishIncoming(transfer);
+      } else if (frame.type === FrameType.Digest) {
+        const transfer = incomingTransfer.current;
+        if (!transfer || transfer.id !== frame.transferId) return;
+        const { index, digest } = decodeDigest(frame);
+        transfer.expectedDigests[index] = digest;
+      } else if (frame.type === FrameType.ResumeQuery) {
+        // Everything up to bytesReceived is in memory, so that is the acknowledged offset
+        const id = frame.transferId!;
+        const transfer = incomingTransfer.current;
+        if (transfer && transfer.id === id) {
+          const offset = getResumeOffset(transfer);
+          receiveThroughput.current.reset(offset);
+          channel.send(encodeResume(id, offset, frame.version));
+        } else {
+          channel.send(encodeRestart(id, frame.version));
+        }
+      } else if (frame.type === FrameType.Resume) {
+        const transfer = outgoingTransfer.current;
+        if (!transfer || transfer.id !== frame.transferId) return;
+        if (frame.offset > 0) {
+          toast({ title: "Resuming", description: `Continuing from ${formatBytes(frame.offset)}.` });
+        }
+        streamTransfer(channel, transfer, frame.offset);
+      } else if (frame.type === FrameType.Restart) {
+        // The receiver lost the partial data, so start over
+        const transfer = outgoingTransfer.current;
+        if (!transfer || transfer.id !== frame.transferId) return;
+        channel.send(encodeMetadata(transfer.id, transfer.manifest, frame.version));
+      } else if (frame.type === FrameType.Ack) {
+        const transfer = outgoingTransfer.current;
+        if (!transfer || transfer.id !== frame.transferId) return;
+        acknowledgeOutgoingTransfer(transfer, frame.offset);
+      } else if (frame.type === FrameType.Complete) {
+        const transfer = outgoingTransfer.current;
+        if (!transfer || transfer.id !== frame.transferId) return;
+        finishOutgoing(transfer, decodeJsonPayload<CompletePayload>(frame).failed);
+      } else if (frame.type === FrameType.Text) {
+        const { text } = decodeJsonPayload<TextPayload>(frame);
+        if (typeof text !== 'string' || getTextSize(text) > MAX_TEXT_MESSAGE_SIZE) return;
+        setTextMessages((history) => addTextMessage(history, createTextMessage(text)));
+        toast({ title: "Text Received", description: text.length > 80 ? `${text.slice(0, 80)}…` : text });
+      } else if (frame.type === FrameType.Identity) {
+        const payload = decodeJsonPayload<IdentityPayload>(frame);
+        channel.getSessionBinding().then((binding) => verifySession(payload, binding)).then((fingerprint) => {
+          if (secureChannel.current !== channel) return;
+          const claimed = autoAccepted.current;
+          if (claimed && fingerprint !== claimed) {
+            resetTransfer();
+            cleanup();
+            toast({ variant: "destructive", title: "Connection Closed", description: "The peer could not prove it is the contact it claimed to be." });
             return;
           }
+          if (!fingerprint) return;
+          clearTimeout(identityTimer.current);
+          setPeerIdentity({ fingerprint, publicKey: payload.publicKey });
+        });
+      } else if (frame.type === FrameType.Pause || frame.type === FrameType.Continue) {
+        applyPause(frame.transferId!, frame.type === FrameType.Pause);
+      } else if (frame.type === FrameType.Cancel) {
+        const id = frame.transferId!;
+        if (outgoingTransfer.current?.id === id) {
+          recordHistory(outgoingTransfer.current, 'sent', 'cancelled');
+          resetOutgoing();
+          toast({ title: "Transfer Cancelled", description: "Your peer cancelled the transfer." });
+        } else if (announcedTransferId.current === id && !incomingTransfer.current?.complete) {
+          if (incomingTransfer.current) recordHistory(incomingTransfer.current, 'received', 'cancelled');
+          // resetIncoming discards the partial data
+          resetIncoming();
+          toast({ title: "Transfer Cancelled", description: "Your peer cancelled the transfer." });
+        }
+      }
+    };
 
-          dc.send(value);
-          offset += value.byteLength;
-          setProgress((offset / file.size) * 100);
+    const handleMessage = (data: string | ArrayBuffer) => {
+      // Everything after the handshake is framed; strings only come from peers predating the framing protocol
+      if (typeof data === 'string') return;
+      try {
+        const frame = decodeFrame(data);
+        // Hello is read whatever its version, so peers can find out they are incompatible
+        if (frame.type !== FrameType.Hello && frame.version !== protocolVersionRef.current) return;
+        handleFrame(frame);
+      } catch (e) {
+        console.error("Message error:", e);
+      }
+    };
+
+    const handleError = (error: unknown) => {
+      console.error("Secure channel error:", error);
+      if (secureChannel.current !== channel) return;
+      toast({ variant: "destructive", title: "Encryption Error", description: "The secure channel could not be established." });
+      cleanup();
+    };
+
+    const channel = createSecureChannel(dc, role, {
+      onReady: (code) => {
+        setConnectionStatus('connected');
+        setVerificationCode(code);
+        setCodeConfirmed(false);
+        toast({ title: "Secure Channel Ready", description: `Check that your peer sees the code ${code}.` });
+        channel.send(encodeHello());
+
+        if (autoAccepted.current) {
+          clearTimeout(identityTimer.current);
+          identityTimer.current = setTimeout(() => {
+            if (secureChannel.current !== channel) return;
+            resetTransfer();
+            cleanup();
+            toast({ variant: "destructive", title: "Connection Closed", description: "The peer did not prove its identity in time." });
+          }, IDENTITY_TIMEOUT);
         }
-      };
+      },
+      onMessage: handleMessage,
+      onError: handleError,
+    });
+    secureChannel.current = channel;
 
-      sendNextChunk();
-    } catch (err) {
-      toast({ variant: "destructive", title: "Transfer Failed", description: "An error occurred." });
-      setTransferMode('idle');
-    }
-  };
+    attachLane.current = (lane) => {
+      dataLanes.current.push(channel.attach(lane, { onMessage: handleMessage, onError: handleError }));
+    };
+    pendingLanes.current.splice(0).forEach(attachLane.current);
+  }, [cleanup, resetOutgoing, resetIncoming, resetTransfer, streamTransfer, finishOutgoing, publishIncoming, finishIncoming, discardIncoming, applyPause, recordHistory, toast]);
 
-  const handleConnect = async () => {
-    if (!recipientId || recipientId.length !== 6 || !db) {
-      toast({ title: "Invalid ID", description: "Please enter a valid 6-digit ID." });
+  const sendFiles = useCallback(({ id, files, manifest: outgoing }: QueuedTransfer) => {
+    const channel = secureChannel.current;
+    if (!channel || !channel.isReady() || channel.channel.readyState !== 'open' || protocolVersionRef.current === null) {
+      toast({ 
+        variant: "destructive",
+        title: "Connection Required", 
+        description: "Please wait for the connection to be fully established." 
+      });
       return;
     }
 
+    const transfer = createOutgoingTransfer(id, files, outgoing);
+    outgoingTransfer.current = transfer;
+    setSendManifest(transfer.manifest);
+    setSendFileName(files.length === 1 ? transfer.manifest.files[0].path : `${files.length} files`);
+    setSendProgress(0);
+    setSendPaused(false);
+
+    // Streaming starts once the receiver replies with the offset it wants
+    channel.send(encodeMetadata(transfer.id, transfer.manifest, protocolVersionRef.current)).catch(() => {
+      toast({ variant: "destructive", title: "Transfer Failed", description: "An error occurred." });
+      resetOutgoing();
+    });
+  }, [resetOutgoing, toast]);
+
+  // Picked files join the queue; files queued before connecting are listed in the connection request
+  const handleSendFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setQueue((current) => [...current, createQueuedTransfer(files)]);
+  };
+
+  // Send the queue one transfer at a time, each once the previous one has been confirmed
+  useEffect(() => {
+    if (protocolVersion === null || queue.length === 0 || sendManifest !== null) return;
+    const [next, ...rest] = queue;
+    setQueue(rest);
+    sendFiles(next);
+  }, [protocolVersion, queue, sendManifest, sendFiles]);
+
+  const connectTo = useCallback(async (targetId: string, request: SessionRequest) => {
+    if (!signaling) return;
+
+    sessionTarget.current = targetId;
+    autoAccepted.current = null;
+    peerLabel.current = targetId;
     setConnectionStatus('connecting');
-    const pc = setupPeerConnection(recipientId, 'sender');
-    const dc = pc.createDataChannel('fileTransfer', { ordered: true });
+    // Storing the offer clears the previous sender's candidates, so ours wait until it has been stored
+    let markSessionCreated!: (created: boolean) => void;
+    const sessionCreated = new Promise<boolean>((resolve) => { markSessionCreated = resolve; });
+    const pc = setupPeerConnection(targetId, 'sender', await getRtcConfig(signaling), sessionCreated);
+    const dc = pc.createDataChannel(CONTROL_CHANNEL_LABEL, { ordered: true });
+    pendingLanes.current = Array.from({ length: getDataChannelCount() - 1 }, (_, i) => {
+      return pc.createDataChannel(getLaneLabel(i + 1), { ordered: true });
+    });
     dataChannel.current = dc;
-    setupDataChannelEvents(dc);
+    setupDataChannelEvents(dc, 'initiator');
 
     try {
       const offer = await pc.createOffer();
       await pc.setLocalDescription(offer);
       
-      await createSignalingSession(db, recipientId, offer);
+      // Lets a recipient that saved us as a contact skip the prompt; the secure channel then checks the claim
+      const identity = await getIdentity().then(({ fingerprint }) => fingerprint, () => undefined);
+      await signaling.createSession(targetId, offer, { ...request, identity });
+      markSessionCreated(true);
 
-      // Listen for the answer on the recipient's doc
-      const recipientDocRef = doc(db, 'signaling', recipientId);
-      const unsubscribe = onSnapshot(recipientDocRef, async (snapshot) => {
-        const data = snapshot.data();
-        if (!data) return;
+      // Listen for the answer on the recipient's code
+      const unsubscribe = signaling.subscribe(targetId, async (session) => {
+        if (!session) return;
 
-        if (data.answer && pc.signalingState !== 'stable') {
-          const answer = JSON.parse(data.answer);
-          await pc.setRemoteDescription(new RTCSessionDescription(answer));
+        if (session.rejected && peerConnection.current === pc) {
+          unsubscribe();
+          outgoingTransfer.current = null;
+          setQueue([]);
+          cleanup();
+          toast({ variant: "destructive", title: "Connection Declined", description: "The recipient rejected the connection." });
+          return;
         }
 
-        if (data.receiverCandidates) {
-          data.receiverCandidates.forEach(async (candStr: string) => {
-            try {
-              const candidate = new RTCIceCandidate(JSON.parse(candStr));
-              await pc.addIceCandidate(candidate);
-            } catch (e) {}
-          });
+        if (session.answer && pc.signalingState !== 'stable') {
+          await pc.setRemoteDescription(new RTCSessionDescription(session.answer));
         }
+
+        session.receiverCandidates.forEach(async (init) => {
+          try {
+            await pc.addIceCandidate(new RTCIceCandidate(init));
+          } catch (e) {}
+        });
       });
 
       // Cleanup listener when connection is stable/closed
-      pc.onconnectionstatechange = () => {
-        if (pc.connectionState === 'connected') {
-          setConnectionStatus('connected');
+      pc.addEventListener('connectionstatechange', () => {
+        if (pc.connectionState !== 'new' && pc.connectionState !== 'connecting') {
           unsubscribe();
         }
-      };
+      });
 
     } catch (err) {
-      setConnectionStatus('disconnected');
+      markSessionCreated(false);
+      if (err instanceof SignalingError && err.reason === 'unknown-code') {
+        // Nobody holds this code any more, so there is nothing to reconnect to
+        outgoingTransfer.current = null;
+        cleanup();
+        toast({ variant: "destructive", title: "Unknown Code", description: err.message });
+        return;
+      }
+      cleanup();
       toast({ variant: "destructive", title: "Connection Error", description: "Failed to initiate signaling." });
     }
+  }, [signaling, setupPeerConnection, setupDataChannelEvents, cleanup, toast]);
+
+  const acceptIncomingRequest = useCallback(async (pending: { offer: RTCSessionDescriptionInit; request: SessionRequest }, claimedIdentity: string | null) => {
+    setIncomingRequest(null);
+    if (!signaling || peerConnection.current) return;
+
+    autoAccepted.current = claimedIdentity;
+    peerLabel.current = pending.request.label;
+    setConnectionStatus('connecting');
+    const config = await getRtcConfig(signaling);
+    // The ref was narrowed to null above, but it may have been set while the relay config loaded
+    const existing = peerConnection.current as RTCPeerConnection | null;
+    if (existing) {
+      // Another connection got there first; show its state rather than leaving ours at connecting
+      setConnectionStatus(existing.connectionState === 'connected' ? 'connected' : 'connecting');
+      return;
+    }
+    const pc = setupPeerConnection(myId, 'receiver', config);
+
+    // Listen for data channel
+    pc.ondatachannel = (event) => {
+      if (isLaneLabel(event.channel.label)) {
+        if (attachLane.current) {
+          attachLane.current(event.channel);
+        } else {
+          pendingLanes.current.push(event.channel);
+        }
+        return;
+      }
+      dataChannel.current = event.channel;
+      setupDataChannelEvents(event.channel, 'responder');
+    };
+
+    try {
+      await pc.setRemoteDescription(new RTCSessionDescription(pending.offer));
+      const answer = await pc.createAnswer();
+      await pc.setLocalDescription(answer);
+
+      await signaling.respond(myId, answer);
+    } catch (err) {
+      cleanup();
+      toast({ variant: "destructive", title: "Connection Error", description: "Failed to answer the connection request." });
+    }
+  }, [signaling, myId, setupPeerConnection, setupDataChannelEvents, cleanup, toast]);
+
+  // Contacts set to auto-accept are let in without the prompt
+  const trustedRequester = contacts.find(({ id, policy }) => id === incomingRequest?.request.identity && policy === 'auto-accept') ?? null;
+
+  useEffect(() => {
+    if (!incomingRequest || !trustedRequester) return;
+    toast({ title: "Trusted Contact", description: `Connecting to ${trustedRequester.name}.` });
+    acceptIncomingRequest(incomingRequest, trustedRequester.id);
+  }, [incomingRequest, trustedRequester, acceptIncomingRequest, toast]);
+
+  // A contact's key, verified before this connection, stands in for comparing codes
+  useEffect(() => {
+    if (!peerContact) return;
+    if (peerContact.id !== savedContactId.current) setCodeConfirmed(true);
+    peerLabel.current = peerContact.name;
+  }, [peerContact]);
+
+  // Start held transfers as soon as the verified contact's limit covers them
+  useEffect(() => {
+    if (!pendingApproval || !shouldAutoAccept(peerContact, pendingApproval.manifest.totalSize)) return;
+    setPendingApproval(null);
+    prepareReceiving(pendingApproval.id, pendingApproval.manifest);
+  }, [pendingApproval, peerContact, prepareReceiving]);
+
+  const approveTransfer = () => {
+    if (!pendingApproval) return;
+    setPendingApproval(null);
+    prepareReceiving(pendingApproval.id, pendingApproval.manifest);
+  };
+
+  const saveVerifiedPeer = (settings: ContactSettings) => {
+    setSavingContact(false);
+    if (!peerIdentity) return;
+    savedContactId.current = peerIdentity.fingerprint;
+    saveContact({ id: peerIdentity.fingerprint, publicKey: peerIdentity.publicKey, ...settings })
+      .then(() => toast({ title: "Contact Saved", description: `${settings.name} will be recognized next time.` }))
+      .catch(() => toast({ variant: "destructive", title: "Account Error", description: "Could not save the contact." }));
+  };
+
+  const sendText = async (text: string) => {
+    const channel = secureChannel.current;
+    const version = protocolVersionRef.current;
+    if (!channel || version === null) {
+      toast({ variant: "destructive", title: "Connection Required", description: "Connect to a device before sending text." });
+      return false;
+    }
+    if (!supportsFrameType(version, FrameType.Text)) {
+      toast({ variant: "destructive", title: "Not Supported", description: "Your peer's FileJet version can't receive text." });
+      return false;
+    }
+    try {
+      await channel.send(encodeText(text, version));
+      toast({ title: "Sent", description: "Text sent to your peer." });
+      return true;
+    } catch (e) {
+      toast({ variant: "destructive", title: "Send Failed", description: "The text could not be sent." });
+      return false;
+    }
+  };
+
+  const copyText = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({ title: "Copied", description: "Text copied to clipboard" });
+  };
+
+  const togglePause = (direction: 'outgoing' | 'incoming') => {
+    const id = direction === 'outgoing' ? outgoingTransfer.current?.id : incomingTransfer.current?.id;
+    const paused = direction === 'outgoing' ? sendPaused : receivePaused;
+    const version = protocolVersionRef.current;
+    if (!id || version === null || !supportsFrameType(version, FrameType.Pause)) return;
+    applyPause(id, !paused);
+    secureChannel.current?.send(paused ? encodeContinue(id, version) : encodePause(id, version)).catch(() => undefined);
+  };
+
+  const cancelTransfer = (direction: 'outgoing' | 'incoming') => {
+    const id = direction === 'outgoing' ? outgoingTransfer.current?.id : announcedTransferId.current;
+    const version = protocolVersionRef.current;
+    if (id && version !== null && supportsFrameType(version, FrameType.Cancel)) {
+      secureChannel.current?.send(encodeCancel(id, version)).catch(() => undefined);
+    }
+    if (direction === 'outgoing' && outgoingTransfer.current) {
+      recordHistory(outgoingTransfer.current, 'sent', 'cancelled');
+    } else if (direction === 'incoming' && incomingTransfer.current && !incomingTransfer.current.complete) {
+      recordHistory(incomingTransfer.current, 'received', 'cancelled');
+    }
+    if (direction === 'outgoing') resetOutgoing();
+    else resetIncoming();
+    toast({ title: "Transfer Cancelled" });
+  };
+
+  const rejectIncomingRequest = () => {
+    setIncomingRequest(null);
+    signaling?.reject(myId).catch(() => undefined);
+  };
+
+  const handleConnect = () => {
+    if (!isValidPairingCode(recipientId) || !signaling) {
+      toast({ title: "Invalid Code", description: "Please enter a pairing code like 7-orbit-lantern." });
+      return;
+    }
+    connectTo(recipientId, {
+      label: getDeviceLabel(),
+      manifest: getQueueManifest(queue),
+    });
+  };
+
+  // Signed-in users reach their own devices on the code each one advertises
+  const connectToDevice = (device: DeviceRecord) => {
+    if (!device.pairingCode || !signaling) return;
+    setRecipientId(device.pairingCode);
+    connectTo(device.pairingCode, { label: getDeviceLabel(), manifest: getQueueManifest(queue) });
+  };
+
+  const forgetListedDevice = (device: DeviceRecord) => {
+    forgetDevice(device.id).catch(() => {
+      toast({ variant: "destructive", title: "Account Error", description: `Could not remove ${device.name}.` });
+    });
+  };
+
+  // Opened through a join link: fill in the recipient and connect right away
+  useEffect(() => {
+    if (!joinCode || !signaling || joinHandled.current) return;
+    joinHandled.current = true;
+
+    const code = normalizePairingCode(joinCode);
+    if (!isValidPairingCode(code)) {
+      toast({ variant: "destructive", title: "Invalid Link", description: "This join link does not contain a valid pairing code." });
+      return;
+    }
+
+    setRecipientId(code);
+    connectTo(code, { label: getDeviceLabel() });
+  }, [joinCode, signaling, connectTo, toast]);
+
+  const isSending = sendManifest !== null;
+  const isReceiving = receiveManifest !== null;
+  // Peers before version 3 can't be asked to pause or cancel
+  const canControlTransfers = protocolVersion !== null && supportsFrameType(protocolVersion, FrameType.Pause);
+
+  // Sample transfer speed for the progress displays
+  useEffect(() => {
+    if (!isSending && !isReceiving) return;
+    const read = (estimator: ThroughputEstimator) => ({ rate: estimator.rate(), transferred: estimator.bytes(), history: estimator.sample() });
+    const timer = setInterval(() => {
+      if (isSending) setSendSpeed(read(sendThroughput.current));
+      if (isReceiving) setReceiveSpeed(read(receiveThroughput.current));
+    }, THROUGHPUT_SAMPLE_INTERVAL);
+    return () => clearInterval(timer);
+  }, [isSending, isReceiving]);
+
+  // Re-establish the session while a transfer in either direction is unfinished. Only the peer that
+  // connected can do this; the other one waits to be called again.
+  useEffect(() => {
+    const interruptedIncoming = incomingTransfer.current && !incomingTransfer.current.complete ? incomingTransfer.current : null;
+    if (connectionStatus !== 'disconnected' || (!outgoingTransfer.current && !interruptedIncoming) || !sessionTarget.current) return;
+
+    if (reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      if (outgoingTransfer.current) recordHistory(outgoingTransfer.current, 'sent', 'failed');
+      if (interruptedIncoming) recordHistory(interruptedIncoming, 'received', 'failed');
+      resetTransfer();
+      setReconnectAttempts(0);
+      toast({ variant: "destructive", title: "Transfer Abandoned", description: "Could not reconnect to your peer." });
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      const pending = outgoingTransfer.current;
+      setReconnectAttempts((attempts) => attempts + 1);
+      connectTo(sessionTarget.current, {
+        label: getDeviceLabel(),
+        manifest: pending?.manifest,
+        resumeTransferId: pending?.id ?? interruptedIncoming?.id,
+      });
+    }, RECONNECT_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [connectionStatus, reconnectAttempts, connectTo, resetTransfer, recordHistory, toast]);
+
+  const chooseSaveLocation = async () => {
+    if (!pendingSave) return;
+    try {
+      const sink = await pickFileSystemSink(pendingSave.manifest);
+      beginReceiving(pendingSave.id, pendingSave.manifest, sink);
+    } catch (e) {
+      if ((e as DOMException).name !== 'AbortError') {
+        toast({ variant: "destructive", title: "Save Failed", description: "Could not open the selected location." });
+      }
+    }
   };
 
-  const downloadFile = () => {
-    if (!receivedFile) return;
-    const url = URL.createObjectURL(receivedFile);
+  const receiveThroughBrowser = async () => {
+    if (!pendingSave) return;
+    const sink = await createDefaultSink(pendingSave.manifest);
+    beginReceiving(pendingSave.id, pendingSave.manifest, sink);
+  };
+
+  const getConnection = useCallback(() => ({
+    pc: peerConnection.current,
+    channels: [dataChannel.current, ...dataLanes.current.map((lane) => lane.channel)].filter((dc): dc is RTCDataChannel => dc !== null),
+  }), []);
+
+  const saveBlob = (blob: Blob, name: string) => {
+    const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = fileName;
+    a.download = name;
     a.click();
     URL.revokeObjectURL(url);
   };
 
+  const downloadFile = (index: number) => {
+    const blob = receivedFiles[index];
+    if (!blob || !receiveManifest) return;
+    saveBlob(blob, getBaseName(receiveManifest.files[index].path));
+  };
+
+  // Earlier transfers are downloaded file by file; their folder structure is only kept in the names
+  const downloadEarlier = (entry: (typeof receivedEarlier)[number]) => {
+    entry.files.forEach((blob, i) => {
+      if (blob && !entry.failed.includes(i)) saveBlob(blob, getBaseName(entry.manifest.files[i].path));
+    });
+  };
+
+  // Recreate the folder structure when the browser lets us write to a directory
+  const downloadAll = async () => {
+    if (!receiveManifest) return;
+    if (receiveManifest.files.length > 1 && window.showDirectoryPicker) {
+      try {
+        const root = await window.showDirectoryPicker({ mode: 'readwrite' });
+        for (let i = 0; i < receiveManifest.files.length; i++) {
+          const blob = receivedFiles[i];
+          if (blob) await writeToDirectory(root, receiveManifest.files[i].path, blob);
+        }
+        toast({ title: "Saved", description: `${receiveManifest.files.length} files written to ${root.name}` });
+      } catch (e) {
+        if ((e as DOMException).name !== 'AbortError') {
+          toast({ variant: "destructive", title: "Save Failed", description: "Could not write files to the selected folder." });
+        }
+      }
+      return;
+    }
+
+    receiveManifest.files.forEach((_, i) => downloadFile(i));
+  };
+
+  const receivedToDisk = sinkKind !== null && sinkKind !== 'memory';
+  const isVerified = (index: number) => failedFiles !== null && !failedFiles.includes(index);
+  const allVerified = failedFiles !== null && failedFiles.length === 0;
+
+  const fileOffsets = receiveManifest ? getFileOffsets(receiveManifest) : [];
+
+  // A mismatched code means someone is relaying the connection, so drop it without reconnecting
+  const rejectPeer = () => {
+    resetTransfer();
+    cleanup();
+    toast({ variant: "destructive", title: "Connection Closed", description: "Verification codes did not match." });
+  };
+
+  const handleScan = useCallback((code: string) => {
+    setScannerOpen(false);
+    setRecipientId(code);
+    toast({ title: "Code Scanned", description: `Ready to connect to ${code}.` });
+  }, [toast]);
+
   const copyId = () => {
     navigator.clipboard.writeText(myId);
     toast({ title: "Copied", description: "ID copied to clipboard" });
   };
 
+  const copyLink = () => {
+    navigator.clipboard.writeText(buildJoinUrl(myId));
+    toast({ title: "Copied", description: "Join link copied to clipboard" });
+  };
+
   return (
     <div className="min-h-screen bg-background bg-gradient-tech p-4 md:p-8 flex flex-col items-center justify-center">
       <div className="w-full max-w-5xl space-y-8">
@@ -297,18 +1139,82 @@ export default function FileJet() {
             </div>
           </div>
           
-          <div className="flex items-center gap-4">
+          <div className="flex flex-wrap items-center justify-center gap-4">
             <div className="bg-card border px-4 py-2 rounded-lg flex items-center gap-3">
               <span className="text-xs uppercase tracking-wider text-muted-foreground font-semibold">Your ID</span>
-              <code className="text-xl font-bold text-primary tracking-widest">{myId || '------'}</code>
+              <code className="text-xl font-bold text-primary tracking-wide">{myId || '...'}</code>
               <Button variant="ghost" size="icon" className="h-8 w-8" onClick={copyId}>
                 <Copy className="h-4 w-4" />
               </Button>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={copyLink} disabled={!myId}>
+                <Link2 className="h-4 w-4" />
+              </Button>
+              <PairingQrCode code={myId} />
             </div>
             <Badge variant={connectionStatus === 'connected' ? 'default' : connectionStatus === 'connecting' ? 'secondary' : 'outline'} className="h-8 px-3">
               <div className={`w-2 h-2 rounded-full mr-2 ${connectionStatus === 'connected' ? 'bg-green-500 animate-pulse' : 'bg-orange-500'}`} />
               {connectionStatus.charAt(0).toUpperCase() + connectionStatus.slice(1)}
             </Badge>
+            <DiagnosticsSheet getConnection={getConnection} />
+            <Button variant="outline" size="icon" className="h-8 w-8" title="Transfer history" asChild>
+              <Link href="/history">
+                <History className="h-4 w-4" />
+              </Link>
+            </Button>
+            <AccountMenu
+              user={user}
+              loading={userLoading}
+              deviceName={deviceName}
+              onRename={renameDevice}
+              onSignOut={signOut}
+              onError={(message) => toast({ variant: "destructive", title: "Account Error", description: message })}
+            />
+            {user && (
+              <ContactsSheet
+                contacts={contacts}
+                onUpdate={(id, settings) => {
+                  updateContact(id, settings).catch(() => toast({ variant: "destructive", title: "Account Error", description: "Could not update the contact." }));
+                }}
+                onRemove={(contact) => {
+                  removeContact(contact.id).catch(() => toast({ variant: "destructive", title: "Account Error", description: `Could not remove ${contact.name}.` }));
+                }}
+              />
+            )}
+            {verificationCode && (
+              <div className="bg-card border px-4 py-2 rounded-lg flex items-center gap-3">
+                <ShieldCheck className={`w-4 h-4 ${codeConfirmed ? 'text-green-500' : 'text-muted-foreground'}`} />
+                <span className="text-xs uppercase tracking-wider text-muted-foreground font-semibold">Code</span>
+                <code className="text-lg font-bold tracking-widest">{verificationCode}</code>
+                {!codeConfirmed && (
+                  <>
+                    <Button variant="ghost" size="sm" className="h-8" onClick={() => setCodeConfirmed(true)}>
+                      Matches
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-8 text-destructive" onClick={rejectPeer}>
+                      Mismatch
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+            {peerIdentity && (
+              peerContact ? (
+                <Badge variant="secondary" className="h-8 px-3 gap-2">
+                  <UserCheck className="w-4 h-4 text-green-500" />
+                  {peerContact.name}
+                </Badge>
+              ) : codeConfirmed && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 gap-2"
+                  onClick={() => user ? setSavingContact(true) : toast({ title: "Sign In Required", description: "Sign in to save contacts." })}
+                >
+                  <UserPlus className="w-4 h-4" />
+                  Save Contact
+                </Button>
+              )
+            )}
           </div>
         </header>
 
@@ -323,20 +1229,31 @@ export default function FileJet() {
             </CardHeader>
             <CardContent className="space-y-6">
               <div className="space-y-4">
+                <MyDevices devices={devices} disabled={connectionStatus !== 'disconnected'} onConnect={connectToDevice} onForget={forgetListedDevice} />
+
                 <div className="space-y-2">
                   <label className="text-xs font-semibold uppercase text-muted-foreground">Recipient Connection</label>
                   <div className="flex gap-2">
                     <Input 
-                      placeholder="Enter 6-digit Recipient ID" 
-                      className="text-center tracking-widest text-lg font-bold h-12"
+                      placeholder="Recipient code, e.g. 7-orbit-lantern" 
+                      className="text-center tracking-wide text-lg font-bold h-12"
                       value={recipientId}
-                      onChange={(e) => setRecipientId(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                      onChange={(e) => setRecipientId(normalizePairingCode(e.target.value))}
                       disabled={connectionStatus === 'connected'}
                     />
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="h-12 w-12 shrink-0"
+                      onClick={() => setScannerOpen(true)}
+                      disabled={connectionStatus !== 'disconnected'}
+                    >
+                      <ScanLine className="h-5 w-5" />
+                    </Button>
                     <Button 
                       className="h-12 px-6" 
                       onClick={handleConnect}
-                      disabled={connectionStatus !== 'disconnected' || recipientId.length !== 6}
+                      disabled={connectionStatus !== 'disconnected' || !isValidPairingCode(recipientId)}
                     >
                       Connect
                     </Button>
@@ -350,29 +1267,78 @@ export default function FileJet() {
                   <div className="file-drop-zone p-8 flex flex-col items-center justify-center text-center gap-4 relative">
                     <input 
                       type="file" 
+                      multiple
                       className="absolute inset-0 opacity-0 cursor-pointer disabled:cursor-not-allowed"
                       onChange={handleSendFile}
-                      disabled={connectionStatus !== 'connected' || transferMode !== 'idle'}
                     />
                     <div className="p-4 rounded-full bg-primary/10">
                       <HardDrive className={`w-10 h-10 ${connectionStatus === 'connected' ? 'text-primary' : 'text-muted-foreground'}`} />
                     </div>
                     <div>
-                      <p className="font-semibold">{connectionStatus === 'connected' ? 'Drop file or click to browse' : 'Connect to send files'}</p>
-                      <p className="text-sm text-muted-foreground">No file size limit (RAM-to-RAM)</p>
+                      <p className="font-semibold">
+                        {connectionStatus !== 'connected' ? 'Pick files now, they send once connected' : isSending ? 'Drop more files to queue them' : 'Drop files or click to browse'}
+                      </p>
+                      <p className="text-sm text-muted-foreground">No file size limit (streams to disk)</p>
                     </div>
                   </div>
+                  <input
+                    ref={folderInput}
+                    type="file"
+                    className="hidden"
+                    onChange={handleSendFile}
+                    {...({ webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>)}
+                  />
+                  <Button
+                    variant="outline"
+                    className="w-full gap-2"
+                    onClick={() => folderInput.current?.click()}
+                  >
+                    <FolderUp className="w-4 h-4" />
+                    Send a Folder
+                  </Button>
                 </div>
 
-                {transferMode === 'sending' && (
+                {isSending && (
                   <div className="bg-secondary/30 p-4 rounded-lg space-y-3">
                     <div className="flex justify-between items-center text-sm">
-                      <span className="font-medium truncate max-w-[200px]">{fileName}</span>
-                      <span className="text-primary font-bold">{Math.round(progress)}%</span>
+                      <span className="font-medium truncate max-w-[200px]">{sendFileName}</span>
+                      <span className="text-primary font-bold">{Math.round(sendProgress)}%</span>
                     </div>
-                    <Progress value={progress} className="h-2" />
+                    <Progress value={sendProgress} className="h-2" />
+                    {sendManifest && connectionStatus === 'connected' && (
+                      sendPaused ? (
+                        <p className="text-xs text-muted-foreground text-center">Paused</p>
+                      ) : (
+                        <TransferSpeed rate={sendSpeed.rate} transferred={sendSpeed.transferred} total={sendManifest.totalSize} history={sendSpeed.history} />
+                      )
+                    )}
+                    {connectionStatus === 'connected' && canControlTransfers && sendProgress < 100 && (
+                      <TransferControls paused={sendPaused} canPause={sendProgress > 0} onTogglePause={() => togglePause('outgoing')} onCancel={() => cancelTransfer('outgoing')} />
+                    )}
+                    {connectionStatus !== 'connected' && (
+                      <div className="flex justify-between items-center text-xs text-muted-foreground">
+                        <span>
+                          {channelRole === 'responder'
+                            ? 'Connection lost. Waiting for your peer to reconnect...'
+                            : `Connection lost. Reconnecting (attempt ${reconnectAttempts} of ${MAX_RECONNECT_ATTEMPTS})...`}
+                        </span>
+                        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={resetOutgoing}>
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 )}
+
+                <TransferQueue
+                  queue={queue}
+                  onMove={(id, direction) => setQueue((current) => moveQueuedTransfer(current, id, direction))}
+                  onRemove={(id) => setQueue((current) => removeQueuedTransfer(current, id))}
+                />
+
+                <Separator className="my-6" />
+
+                <TextComposer disabled={protocolVersion === null || !supportsFrameType(protocolVersion, FrameType.Text)} onSend={sendText} />
               </div>
             </CardContent>
           </Card>
@@ -387,7 +1353,7 @@ export default function FileJet() {
             </CardHeader>
             <CardContent className="space-y-6">
               <div className="flex flex-col items-center justify-center min-h-[300px] gap-6 text-center">
-                {transferMode === 'receiving' ? (
+                {isReceiving ? (
                   <div className="w-full space-y-8 animate-in fade-in slide-in-from-bottom-4">
                     <div className="flex flex-col items-center gap-4">
                       <div className="w-20 h-20 rounded-2xl bg-accent/10 flex items-center justify-center relative">
@@ -395,29 +1361,145 @@ export default function FileJet() {
                         <div className="absolute inset-0 rounded-2xl border-2 border-accent animate-ping opacity-20" />
                       </div>
                       <div>
-                        <h3 className="text-xl font-bold">{fileName}</h3>
-                        <p className="text-muted-foreground text-sm">{(fileSize / (1024 * 1024)).toFixed(2)} MB</p>
+                        <h3 className="text-xl font-bold">
+                          {receiveManifest?.files.length === 1 ? getBaseName(receiveManifest.files[0].path) : `${receiveManifest?.files.length ?? 0} files`}
+                        </h3>
+                        <p className="text-muted-foreground text-sm">{formatBytes(receiveManifest?.totalSize ?? 0)}</p>
                       </div>
                     </div>
 
                     <div className="space-y-3 w-full max-w-md mx-auto">
                       <div className="flex justify-between text-xs font-bold uppercase tracking-widest text-accent">
-                        <span>Transferring...</span>
-                        <span>{Math.round(progress)}%</span>
+                        <span>{connectionStatus !== 'connected' && receiveProgress < 100 ? 'Paused, waiting for sender...' : pendingApproval ? 'Waiting for approval' : receivePaused ? 'Paused' : 'Transferring...'}</span>
+                        <span>{Math.round(receiveProgress)}%</span>
                       </div>
                       <div className="relative h-4 w-full bg-secondary rounded-full overflow-hidden">
                         <div 
                           className="absolute h-full bg-accent transition-all duration-300 ease-out"
-                          style={{ width: `${progress}%` }}
+                          style={{ width: `${receiveProgress}%` }}
                         />
                         <div className="absolute inset-0 progress-shimmer opacity-30" />
                       </div>
+                      {receiveManifest && connectionStatus === 'connected' && receiveProgress < 100 && !receivePaused && (
+                        <TransferSpeed rate={receiveSpeed.rate} transferred={receiveSpeed.transferred} total={receiveManifest.totalSize} history={receiveSpeed.history} />
+                      )}
+                      {connectionStatus === 'connected' && canControlTransfers && receiveProgress < 100 && (
+                        <TransferControls paused={receivePaused} canPause={!pendingSave && !pendingApproval} onTogglePause={() => togglePause('incoming')} onCancel={() => cancelTransfer('incoming')} />
+                      )}
+                      {connectionStatus !== 'connected' && receiveProgress < 100 && (
+                        <Button variant="ghost" size="sm" className="gap-2 text-muted-foreground" onClick={resetIncoming}>
+                          <X className="h-4 w-4" />
+                          Discard partial transfer
+                        </Button>
+                      )}
                     </div>
 
-                    {progress === 100 && (
-                      <Button className="w-full h-14 text-lg bg-accent hover:bg-accent/90 shadow-lg shadow-accent/20 gap-3" onClick={downloadFile}>
+                    {receiveManifest && receiveManifest.files.length > 1 && (
+                      <ScrollArea className="h-48 w-full rounded-lg border bg-secondary/20">
+                        <div className="p-2 space-y-2 text-left">
+                          {receiveManifest.files.map((entry, i) => {
+                            const start = fileOffsets[i];
+                            const fileProgress = entry.size
+                              ? Math.min(Math.max(bytesReceived - start, 0), entry.size) / entry.size * 100
+                              : (receivedFiles[i] ? 100 : 0);
+                            return (
+                              <div key={entry.path + i} className="flex items-center gap-3 p-2 rounded-md bg-card/50">
+                                <FileIcon className="w-4 h-4 shrink-0 text-muted-foreground" />
+                                <div className="flex-1 min-w-0 space-y-1">
+                                  <div className="flex justify-between gap-2 text-xs">
+                                    <span className="truncate font-medium" title={entry.path}>{entry.path}</span>
+                                    <span className="text-muted-foreground shrink-0">{formatBytes(entry.size)}</span>
+                                  </div>
+                                  <Progress value={fileProgress} className="h-1" />
+                                </div>
+                                {failedFiles?.includes(i) ? (
+                                  <AlertCircle className="w-4 h-4 shrink-0 text-destructive" />
+                                ) : receivedToDisk ? (
+                                  <CheckCircle2 className={`w-4 h-4 shrink-0 ${isVerified(i) ? 'text-accent' : 'text-muted-foreground/30'}`} />
+                                ) : (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8 shrink-0"
+                                    onClick={() => downloadFile(i)}
+                                    disabled={!receivedFiles[i] || !isVerified(i)}
+                                  >
+                                    <Download className="h-4 w-4" />
+                                  </Button>
+                                )}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </ScrollArea>
+                    )}
+
+                    {pendingApproval && (
+                      <div className="space-y-3">
+                        <p className="text-sm text-muted-foreground">
+                          {peerContact ? `${peerContact.name} wants to send you this.` : 'Your peer wants to send you this.'} Accept the transfer?
+                        </p>
+                        <div className="flex flex-col sm:flex-row gap-2">
+                          <Button className="flex-1 gap-2 bg-accent hover:bg-accent/90" onClick={approveTransfer}>
+                            <CheckCircle2 className="w-4 h-4" />
+                            Accept
+                          </Button>
+                          <Button variant="outline" className="flex-1 gap-2" onClick={() => cancelTransfer('incoming')}>
+                            <X className="w-4 h-4" />
+                            Decline
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+
+                    {pendingSave && (
+                      <div className="space-y-3">
+                        <p className="text-sm text-muted-foreground">
+                          This transfer is too large to hold in memory. Choose where to save it.
+                        </p>
+                        <div className="flex flex-col sm:flex-row gap-2">
+                          <Button className="flex-1 gap-2 bg-accent hover:bg-accent/90" onClick={chooseSaveLocation}>
+                            <HardDrive className="w-4 h-4" />
+                            Choose Location
+                          </Button>
+                          <Button variant="outline" className="flex-1 gap-2" onClick={receiveThroughBrowser}>
+                            <Download className="w-4 h-4" />
+                            Use Downloads Folder
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+
+                    {receiveManifest && receiveProgress === 100 && (
+                      failedFiles === null ? (
+                        <Badge variant="secondary" className="gap-2">
+                          <ShieldCheck className="w-4 h-4 animate-pulse" />
+                          Verifying block hashes...
+                        </Badge>
+                      ) : allVerified ? (
+                        <Badge className="gap-2 bg-green-600 hover:bg-green-600">
+                          <ShieldCheck className="w-4 h-4" />
+                          Verified (SHA-256 block hashes)
+                        </Badge>
+                      ) : (
+                        <Badge variant="destructive" className="gap-2">
+                          <AlertCircle className="w-4 h-4" />
+                          Integrity check failed for {failedFiles.length} of {receiveManifest.files.length} files
+                        </Badge>
+                      )
+                    )}
+
+                    {receiveManifest && receivedToDisk && allVerified && (
+                      <div className="flex items-center justify-center gap-2 text-accent font-semibold">
+                        <CheckCircle2 className="w-5 h-5" />
+                        {sinkKind === 'file-system' ? 'Saved to the selected location' : 'Saved to your downloads'}
+                      </div>
+                    )}
+
+                    {receiveManifest && !receivedToDisk && receivedFiles.length === receiveManifest.files.length && allVerified && (
+                      <Button className="w-full h-14 text-lg bg-accent hover:bg-accent/90 shadow-lg shadow-accent/20 gap-3" onClick={receiveManifest.files.length === 1 ? () => downloadFile(0) : downloadAll}>
                         <CheckCircle2 className="w-6 h-6" />
-                        Download File
+                        {receiveManifest.files.length === 1 ? 'Download File' : 'Download All'}
                       </Button>
                     )}
                   </div>
@@ -433,6 +1515,33 @@ export default function FileJet() {
                   </div>
                 )}
               </div>
+
+              {receivedEarlier.length > 0 && (
+                <div className="space-y-2">
+                  <label className="text-xs font-semibold uppercase text-muted-foreground">Received Earlier</label>
+                  <div className="space-y-1">
+                    {receivedEarlier.map((entry) => (
+                      <div key={entry.id} className="flex items-center gap-2 text-sm bg-secondary/30 pl-3 pr-1 py-1 rounded-lg">
+                        {entry.failed.length > 0 ? (
+                          <AlertCircle className="w-4 h-4 shrink-0 text-destructive" />
+                        ) : (
+                          <CheckCircle2 className="w-4 h-4 shrink-0 text-accent" />
+                        )}
+                        <span className="flex-1 truncate">{describeTransfer(entry.manifest)}</span>
+                        <span className="text-xs text-muted-foreground shrink-0">{formatBytes(entry.manifest.totalSize)}</span>
+                        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => downloadEarlier(entry)} disabled={entry.failed.length === entry.files.length}>
+                          <Download className="h-3 w-3" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setReceivedEarlier((earlier) => earlier.filter(({ id }) => id !== entry.id))}>
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <TextHistory messages={textMessages} onCopy={copyText} onClear={() => setTextMessages([])} />
             </CardContent>
           </Card>
         </div>
@@ -456,11 +1565,28 @@ export default function FileJet() {
             <AlertCircle className="w-6 h-6 text-accent" />
             <div className="text-sm">
               <p className="font-bold">Encrypted</p>
-              <p className="text-muted-foreground">Secure end-to-end data channels.</p>
+              <p className="text-muted-foreground">AES-GCM with a code you can verify.</p>
             </div>
           </div>
         </footer>
       </div>
+
+      <QrScannerDialog open={scannerOpen} onOpenChange={setScannerOpen} onScan={handleScan} />
+
+      <IncomingConnectionDialog
+        request={trustedRequester ? null : incomingRequest?.request ?? null}
+        onAccept={() => incomingRequest && acceptIncomingRequest(incomingRequest, null)}
+        onReject={rejectIncomingRequest}
+      />
+
+      {savingContact && peerIdentity && (
+        <ContactDialog
+          fingerprint={peerIdentity.fingerprint}
+          initial={{ name: '', policy: 'prompt', autoAcceptLimit: DEFAULT_AUTO_ACCEPT_LIMIT }}
+          onClose={() => setSavingContact(false)}
+          onSave={saveVerifiedPeer}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,73 @@
+"use client"
+
+import React from 'react';
+import { FileIcon, MonitorSmartphone } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { SessionRequest } from '@/lib/signaling';
+import { formatBytes } from '@/lib/transfer-manifest';
+
+type IncomingConnectionDialogProps = {
+  request: SessionRequest | null;
+  onAccept: () => void;
+  onReject: () => void;
+};
+
+export default function IncomingConnectionDialog({ request, onAccept, onReject }: IncomingConnectionDialogProps) {
+  const files = request?.manifest?.files ?? [];
+
+  return (
+    <AlertDialog open={request !== null}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <MonitorSmartphone className="w-5 h-5 text-accent" />
+            Incoming Connection
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            <span className="font-semibold text-foreground">{request?.label}</span>{' '}
+            {request?.resumeTransferId
+              ? 'wants to reconnect and finish an interrupted transfer.'
+              : request?.manifest ? 'wants to connect and send you files.' : 'wants to connect.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {request?.manifest ? (
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs font-semibold uppercase text-muted-foreground">
+              <span>{files.length === 1 ? '1 file' : `${files.length} files`}</span>
+              <span>{formatBytes(request.manifest.totalSize)}</span>
+            </div>
+            <ScrollArea className={`rounded-lg border bg-secondary/20 ${files.length > 5 ? 'h-48' : ''}`}>
+              <div className="p-2 space-y-1">
+                {files.map((entry, i) => (
+                  <div key={entry.path + i} className="flex items-center gap-2 text-sm">
+                    <FileIcon className="w-4 h-4 shrink-0 text-muted-foreground" />
+                    <span className="flex-1 truncate" title={entry.path}>{entry.path}</span>
+                    <span className="text-xs text-muted-foreground shrink-0">{formatBytes(entry.size)}</span>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">The sender will choose files after connecting.</p>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onReject}>Reject</AlertDialogCancel>
+          <AlertDialogAction onClick={onAccept}>Accept</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,65 @@
+"use client"
+
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Laptop, Smartphone, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DeviceRecord } from '@/lib/devices';
+import { isMobilePlatform } from '@/lib/device';
+
+type MyDevicesProps = {
+  /** With `online` already accounting for missed heartbeats. */
+  devices: DeviceRecord[];
+  /** Connecting is only offered while no other connection is up. */
+  disabled: boolean;
+  onConnect: (device: DeviceRecord) => void;
+  onForget: (device: DeviceRecord) => void;
+};
+
+/**
+ * The signed-in user's other devices, each reachable on the pairing code it advertises while online.
+ */
+export default function MyDevices({ devices, disabled, onConnect, onForget }: MyDevicesProps) {
+  if (devices.length === 0) return null;
+
+  // Online devices first, then the most recently seen
+  const sorted = [...devices].sort((a, b) => {
+    return Number(b.online) - Number(a.online) || (b.lastSeen?.toMillis() ?? 0) - (a.lastSeen?.toMillis() ?? 0);
+  });
+
+  return (
+    <div className="space-y-2">
+      <label className="text-xs font-semibold uppercase text-muted-foreground">My Devices</label>
+      <div className="space-y-1">
+        {sorted.map((device) => {
+          const Icon = isMobilePlatform(device.platform) ? Smartphone : Laptop;
+          const reachable = device.online && !!device.pairingCode;
+          return (
+            <div key={device.id} className="flex items-center gap-3 text-sm bg-secondary/30 pl-3 pr-1 py-1 rounded-lg">
+              <div className="relative shrink-0">
+                <Icon className="w-4 h-4 text-muted-foreground" />
+                <div className={`absolute -bottom-0.5 -right-0.5 w-2 h-2 rounded-full border border-card ${device.online ? 'bg-green-500' : 'bg-muted-foreground/40'}`} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="truncate font-medium">{device.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {device.online
+                    ? `Online · ${device.platform}`
+                    : device.lastSeen
+                      ? `Offline · seen ${formatDistanceToNow(device.lastSeen.toDate(), { addSuffix: true })}`
+                      : 'Offline'}
+                </p>
+              </div>
+              <Button variant="outline" size="sm" className="h-7" onClick={() => onConnect(device)} disabled={disabled || !reachable}>
+                Connect
+              </Button>
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onForget(device)}>
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+"use client"
+
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { QrCode } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { buildJoinUrl } from '@/lib/join-link';
+
+type PairingQrCodeProps = {
+  code: string;
+};
+
+/**
+ * Shows a scannable join link for this device's pairing code. Rendered in the browser, nothing leaves the page.
+ */
+export default function PairingQrCode({ code }: PairingQrCodeProps) {
+  const [dataUrl, setDataUrl] = useState('');
+
+  useEffect(() => {
+    if (!code) return;
+    let cancelled = false;
+
+    QRCode.toDataURL(buildJoinUrl(code), { errorCorrectionLevel: 'M', margin: 1, width: 240 })
+      .then((url) => {
+        if (!cancelled) setDataUrl(url);
+      })
+      .catch((e) => console.error("QR code error:", e));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [code]);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8" disabled={!code}>
+          <QrCode className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto flex flex-col items-center gap-3">
+        {dataUrl && (
+          <img src={dataUrl} alt={`QR code for ${code}`} width={240} height={240} className="rounded-md bg-white" />
+        )}
+        <p className="text-xs text-muted-foreground text-center max-w-[240px]">
+          Scan with the sending device to connect to <span className="font-semibold text-foreground">{code}</span>
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+}
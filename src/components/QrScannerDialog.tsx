@@ -0,0 +1,89 @@
+"use client"
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { QrDetector, SCAN_INTERVAL, createQrDetector } from '@/lib/qr-scanner';
+import { parseJoinCode } from '@/lib/join-link';
+
+type QrScannerDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onScan: (code: string) => void;
+};
+
+export default function QrScannerDialog({ open, onOpenChange, onScan }: QrScannerDialogProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    setError('');
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+      } catch (e) {
+        setError('Camera access is unavailable. Type the code instead.');
+        return;
+      }
+
+      const video = videoRef.current;
+      if (cancelled || !video) return;
+      video.srcObject = stream;
+      await video.play().catch(() => undefined);
+
+      let detect: QrDetector;
+      try {
+        detect = await createQrDetector();
+      } catch (e) {
+        stream?.getTracks().forEach((track) => track.stop());
+        if (!cancelled) setError('QR scanning is unavailable in this browser. Type the code instead.');
+        return;
+      }
+
+      const scan = async () => {
+        if (cancelled) return;
+        const text = await detect(video).catch(() => null);
+        const code = text ? parseJoinCode(text) : null;
+        if (code) {
+          onScan(code);
+          return;
+        }
+        timer = setTimeout(scan, SCAN_INTERVAL);
+      };
+      scan();
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [open, onScan]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Camera className="w-5 h-5 text-primary" />
+            Scan Pairing Code
+          </DialogTitle>
+          <DialogDescription>Point your camera at the QR code on the receiving device.</DialogDescription>
+        </DialogHeader>
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : (
+          <video ref={videoRef} className="w-full aspect-square object-cover rounded-lg bg-black" muted playsInline />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,62 @@
+"use client"
+
+import React, { useState } from 'react';
+import { ClipboardPaste, MessageSquareText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { MAX_TEXT_MESSAGE_SIZE, getTextSize } from '@/lib/text-messages';
+import { formatBytes } from '@/lib/transfer-manifest';
+
+type TextComposerProps = {
+  disabled: boolean;
+  /** Resolves to whether the text was sent; the draft is kept if not. */
+  onSend: (text: string) => Promise<boolean>;
+};
+
+/**
+ * Compose box for sending a snippet or link to the connected peer.
+ */
+export default function TextComposer({ disabled, onSend }: TextComposerProps) {
+  const [draft, setDraft] = useState('');
+  const size = getTextSize(draft);
+  const tooLong = size > MAX_TEXT_MESSAGE_SIZE;
+
+  // Reading the clipboard needs permission in some browsers; typing or pasting by hand still works
+  const pasteFromClipboard = async () => {
+    try {
+      setDraft(await navigator.clipboard.readText());
+    } catch {}
+  };
+
+  const send = async () => {
+    if (await onSend(draft)) setDraft('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-xs font-semibold uppercase text-muted-foreground">Send Text or Link</label>
+      <Textarea
+        placeholder="Paste a link or type a note"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey) && !disabled && draft.trim() && !tooLong) send();
+        }}
+        className="resize-none"
+      />
+      <div className="flex items-center gap-2">
+        <span className={`flex-1 text-xs ${tooLong ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {tooLong ? `Too long (${formatBytes(size)} of ${formatBytes(MAX_TEXT_MESSAGE_SIZE)})` : 'Ctrl+Enter to send'}
+        </span>
+        <Button variant="ghost" size="sm" className="gap-2" onClick={pasteFromClipboard}>
+          <ClipboardPaste className="h-4 w-4" />
+          Paste
+        </Button>
+        <Button size="sm" className="gap-2" onClick={send} disabled={disabled || !draft.trim() || tooLong}>
+          <MessageSquareText className="h-4 w-4" />
+          Send Text
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+"use client"
+
+import React from 'react';
+import { Copy, ExternalLink, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { TextMessage, parseLink } from '@/lib/text-messages';
+
+type TextHistoryProps = {
+  messages: TextMessage[];
+  onCopy: (text: string) => void;
+  onClear: () => void;
+};
+
+/**
+ * Text and links received from peers, newest first.
+ */
+export default function TextHistory({ messages, onCopy, onClear }: TextHistoryProps) {
+  if (messages.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-semibold uppercase text-muted-foreground">Received Text ({messages.length})</label>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClear}>
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </div>
+      <ScrollArea className={`rounded-lg border bg-secondary/20 ${messages.length > 3 ? 'h-48' : ''}`}>
+        <div className="p-2 space-y-2">
+          {messages.map((message) => {
+            const link = parseLink(message.text);
+            return (
+              <div key={message.id} className="flex items-start gap-2 p-2 rounded-md bg-card/50 text-sm">
+                <div className="flex-1 min-w-0 space-y-1">
+                  {link ? (
+                    <a href={link.href} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 font-medium text-primary break-all hover:underline">
+                      {link.href}
+                      <ExternalLink className="h-3 w-3 shrink-0" />
+                    </a>
+                  ) : (
+                    <p className="whitespace-pre-wrap break-words line-clamp-6">{message.text}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">{new Date(message.receivedAt).toLocaleTimeString()}</p>
+                </div>
+                <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => onCopy(message.text)}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
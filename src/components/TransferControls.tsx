@@ -0,0 +1,30 @@
+"use client"
+
+import React from 'react';
+import { Ban, Pause, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+type TransferControlsProps = {
+  paused: boolean;
+  /** Pausing is only offered once data is flowing; cancelling works at any point. */
+  canPause: boolean;
+  onTogglePause: () => void;
+  onCancel: () => void;
+};
+
+export default function TransferControls({ paused, canPause, onTogglePause, onCancel }: TransferControlsProps) {
+  return (
+    <div className="flex justify-center gap-2">
+      {canPause && (
+        <Button variant="outline" size="sm" className="gap-2" onClick={onTogglePause}>
+          {paused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+          {paused ? 'Resume' : 'Pause'}
+        </Button>
+      )}
+      <Button variant="ghost" size="sm" className="gap-2 text-destructive" onClick={onCancel}>
+        <Ban className="h-4 w-4" />
+        Cancel
+      </Button>
+    </div>
+  );
+}
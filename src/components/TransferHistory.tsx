@@ -0,0 +1,232 @@
+"use client"
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { DateRange } from 'react-day-picker';
+import { format } from 'date-fns';
+import { ArrowDownLeft, ArrowLeft, ArrowUpRight, CalendarIcon, FileDown, History, Search, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Calendar } from '@/components/ui/calendar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { HistoryEntry, clearTransferHistory, filterHistory, getTransferHistory, historyToCsv, historyToJson } from '@/lib/transfer-history';
+import { formatBytes } from '@/lib/transfer-manifest';
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+};
+
+const RESULT_BADGES: Record<HistoryEntry['result'], { label: string; variant: 'default' | 'destructive' | 'outline' }> = {
+  completed: { label: 'Completed', variant: 'default' },
+  failed: { label: 'Failed', variant: 'destructive' },
+  cancelled: { label: 'Cancelled', variant: 'outline' },
+};
+
+/**
+ * Everything sent and received from this browser, as recorded in the local history.
+ */
+export default function TransferHistory() {
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [search, setSearch] = useState('');
+  const [range, setRange] = useState<DateRange | undefined>();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getTransferHistory().then(setEntries).catch(() => {
+      setEntries([]);
+      toast({ variant: "destructive", title: "History Unavailable", description: "The transfer history could not be read." });
+    });
+  }, [toast]);
+
+  const filtered = useMemo(() => {
+    return filterHistory(entries ?? [], { search, from: range?.from, to: range?.to ?? range?.from });
+  }, [entries, search, range]);
+
+  const exportAs = (kind: 'csv' | 'json') => {
+    const blob = kind === 'csv'
+      ? new Blob([historyToCsv(filtered)], { type: 'text/csv' })
+      : new Blob([historyToJson(filtered)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `filejet-history-${format(new Date(), 'yyyy-MM-dd')}.${kind}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const clearHistory = () => {
+    clearTransferHistory().then(() => {
+      setEntries([]);
+      toast({ title: "History Cleared" });
+    }).catch(() => {
+      toast({ variant: "destructive", title: "History Unavailable", description: "The transfer history could not be cleared." });
+    });
+  };
+
+  const rangeLabel = range?.from
+    ? range.to && range.to.getTime() !== range.from.getTime()
+      ? `${format(range.from, 'MMM d, yyyy')} – ${format(range.to, 'MMM d, yyyy')}`
+      : format(range.from, 'MMM d, yyyy')
+    : 'All dates';
+
+  return (
+    <div className="min-h-screen bg-background bg-gradient-tech p-4 md:p-8 flex flex-col items-center">
+      <div className="w-full max-w-6xl space-y-6">
+        <header className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="bg-primary p-3 rounded-xl shadow-lg shadow-primary/20">
+              <History className="w-8 h-8 text-white" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight font-headline">Transfer History</h1>
+              <p className="text-muted-foreground text-sm">Kept on this device only</p>
+            </div>
+          </div>
+          <Button variant="outline" className="gap-2" asChild>
+            <Link href="/">
+              <ArrowLeft className="w-4 h-4" />
+              Back to FileJet
+            </Link>
+          </Button>
+        </header>
+
+        <Card className="bg-card/50 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle>Files Sent and Received</CardTitle>
+            <CardDescription>
+              {entries === null ? 'Loading...' : `${filtered.length} of ${entries.length} entries`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-col md:flex-row gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search by file name, peer or hash"
+                  className="pl-9"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button variant="outline" className="gap-2 justify-start min-w-[220px]">
+                      <CalendarIcon className="w-4 h-4" />
+                      {rangeLabel}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="end">
+                    <Calendar mode="range" selected={range} onSelect={setRange} numberOfMonths={2} disabled={{ after: new Date() }} />
+                  </PopoverContent>
+                </Popover>
+                {range && (
+                  <Button variant="ghost" size="icon" onClick={() => setRange(undefined)}>
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+                <Button variant="outline" className="gap-2" onClick={() => exportAs('csv')} disabled={filtered.length === 0}>
+                  <FileDown className="w-4 h-4" />
+                  CSV
+                </Button>
+                <Button variant="outline" className="gap-2" onClick={() => exportAs('json')} disabled={filtered.length === 0}>
+                  <FileDown className="w-4 h-4" />
+                  JSON
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" size="icon" className="text-destructive" disabled={!entries?.length}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Clear History?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Every entry is removed from this device. Export it first if you want to keep a copy.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={clearHistory}>Clear</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>File</TableHead>
+                  <TableHead className="text-right">Size</TableHead>
+                  <TableHead>Peer</TableHead>
+                  <TableHead className="text-right">Duration</TableHead>
+                  <TableHead title="SHA-256 over the file's 4 MB block hashes">Block Hash</TableHead>
+                  <TableHead>Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap text-muted-foreground">{format(entry.startedAt, 'MMM d, yyyy HH:mm')}</TableCell>
+                    <TableCell className="max-w-[280px]">
+                      <div className="flex items-center gap-2">
+                        {entry.direction === 'sent' ? (
+                          <ArrowUpRight className="w-4 h-4 shrink-0 text-primary" />
+                        ) : (
+                          <ArrowDownLeft className="w-4 h-4 shrink-0 text-accent" />
+                        )}
+                        <span className="truncate font-medium" title={entry.fileName}>{entry.fileName}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">{formatBytes(entry.size)}</TableCell>
+                    <TableCell className="max-w-[160px] truncate">{entry.peer}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">{formatDuration(entry.duration)}</TableCell>
+                    <TableCell>
+                      {entry.treeHash ? (
+                        <code className="text-xs text-muted-foreground" title={entry.treeHash}>{entry.treeHash.slice(0, 12)}…</code>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={RESULT_BADGES[entry.result].variant}>{RESULT_BADGES[entry.result].label}</Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {entries !== null && filtered.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} className="h-24 text-center text-muted-foreground">
+                      {entries.length === 0 ? 'Nothing sent or received yet.' : 'No transfers match these filters.'}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client"
+
+import React from 'react';
+import { ArrowDown, ArrowUp, FileIcon, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { QueuedTransfer, describeTransfer } from '@/lib/transfer-queue';
+import { formatBytes } from '@/lib/transfer-manifest';
+
+type TransferQueueProps = {
+  queue: QueuedTransfer[];
+  onMove: (id: string, direction: -1 | 1) => void;
+  onRemove: (id: string) => void;
+};
+
+/**
+ * Transfers waiting their turn, in the order they will be sent.
+ */
+export default function TransferQueue({ queue, onMove, onRemove }: TransferQueueProps) {
+  if (queue.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <label className="text-xs font-semibold uppercase text-muted-foreground">Up Next ({queue.length})</label>
+      <div className="space-y-1">
+        {queue.map((entry, i) => (
+          <div key={entry.id} className="flex items-center gap-2 text-sm bg-secondary/30 pl-3 pr-1 py-1 rounded-lg">
+            <FileIcon className="w-4 h-4 shrink-0 text-muted-foreground" />
+            <span className="flex-1 truncate" title={entry.manifest.files.map((file) => file.path).join('\n')}>
+              {describeTransfer(entry.manifest)}
+            </span>
+            <span className="text-xs text-muted-foreground shrink-0">{formatBytes(entry.manifest.totalSize)}</span>
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onMove(entry.id, -1)} disabled={i === 0}>
+              <ArrowUp className="h-3 w-3" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onMove(entry.id, 1)} disabled={i === queue.length - 1}>
+              <ArrowDown className="h-3 w-3" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onRemove(entry.id)}>
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+"use client"
+
+import React from 'react';
+import { Area, AreaChart, YAxis } from 'recharts';
+import { Gauge, Timer } from 'lucide-react';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { ThroughputPoint, estimateRemaining, formatDuration } from '@/lib/throughput';
+import { formatBytes } from '@/lib/transfer-manifest';
+
+const chartConfig = {
+  rate: { label: 'Speed', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+type TransferSpeedProps = {
+  rate: number;
+  /** Bytes transferred so far and in total, for the time remaining. */
+  transferred: number;
+  total: number;
+  history: ThroughputPoint[];
+};
+
+/**
+ * Current speed, time remaining and a sparkline of the last minute.
+ */
+export default function TransferSpeed({ rate, transferred, total, history }: TransferSpeedProps) {
+  const remaining = estimateRemaining(total - transferred, rate);
+  const done = transferred >= total;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <Gauge className="w-3 h-3" />
+          {formatBytes(rate)}/s
+        </span>
+        <span className="flex items-center gap-1">
+          <Timer className="w-3 h-3" />
+          {done ? 'Finishing...' : remaining !== null ? `${formatDuration(remaining)} left` : 'Estimating...'}
+        </span>
+      </div>
+      {history.length > 1 && (
+        <ChartContainer config={chartConfig} className="aspect-auto h-12 w-full">
+          <AreaChart data={history} margin={{ top: 2, right: 0, bottom: 0, left: 0 }}>
+            <YAxis hide domain={[0, 'dataMax']} />
+            <ChartTooltip
+              cursor={false}
+              content={<ChartTooltipContent hideLabel formatter={(value) => `${formatBytes(Number(value))}/s`} />}
+            />
+            <Area
+              dataKey="rate"
+              type="monotone"
+              stroke="var(--color-rate)"
+              fill="var(--color-rate)"
+              fillOpacity={0.2}
+              strokeWidth={1.5}
+              isAnimationActive={false}
+            />
+          </AreaChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+"use client"
+
+import * as React from "react"
+import { User } from "firebase/auth"
+import { useFirestore, useCollection, useDoc } from "@/firebase"
+import { Contact, getContactDoc, getContactsCollection, removeContact, saveContact, updateContact } from "@/lib/contacts"
+
+/**
+ * The signed-in user's contacts, and the contact (if any) for the currently connected peer.
+ */
+export function useContacts(user: User | null, peerFingerprint: string | null) {
+  const db = useFirestore()
+
+  const query = React.useMemo(() => (user ? getContactsCollection(db, user.uid) : null), [db, user])
+  const { data } = useCollection<Contact>(query)
+
+  const peerRef = React.useMemo(() => {
+    return user && peerFingerprint ? getContactDoc(db, user.uid, peerFingerprint) : null
+  }, [db, user, peerFingerprint])
+  const { data: peerContact } = useDoc<Contact>(peerRef)
+
+  const save = React.useCallback((contact: Omit<Contact, "addedAt">) => {
+    if (!user) return Promise.reject(new Error("Sign in to save contacts"))
+    return saveContact(db, user.uid, contact)
+  }, [db, user])
+
+  const update = React.useCallback((id: string, fields: Partial<Pick<Contact, "name" | "policy" | "autoAcceptLimit">>) => {
+    if (!user) return Promise.reject(new Error("Sign in to edit contacts"))
+    return updateContact(db, user.uid, id, fields)
+  }, [db, user])
+
+  const remove = React.useCallback((id: string) => {
+    return user ? removeContact(db, user.uid, id) : Promise.resolve()
+  }, [db, user])
+
+  return {
+    // useCollection keeps its last snapshot when the query goes away, so drop it on sign-out
+    contacts: user ? data ?? [] : [],
+    /** Null while no peer is verified or the peer isn't a contact. */
+    peerContact: peerRef ? peerContact : null,
+    save,
+    update,
+    remove,
+  }
+}
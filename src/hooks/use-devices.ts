@@ -0,0 +1,89 @@
+"use client"
+
+import * as React from "react"
+import { signOut as signOutOfAuth } from "firebase/auth"
+import { useAuth, useFirestore, useCollection, useUser } from "@/firebase"
+import { getDeviceId, getDeviceLabel, getPlatform, setDeviceName } from "@/lib/device"
+import { DeviceRecord, getDevicesCollection, registerDevice, removeDevice, updateDevice } from "@/lib/devices"
+import { PRESENCE_HEARTBEAT_INTERVAL, isDeviceOnline, startPresence } from "@/lib/presence"
+
+/**
+ * The signed-in user's devices. While signed in, this browser is listed with the pairing code it
+ * currently holds, so the user's other devices can connect to it without exchanging codes.
+ */
+export function useDevices(pairingCode: string) {
+  const db = useFirestore()
+  const auth = useAuth()
+  const { user: authUser, loading } = useUser()
+  // Anonymous users only exist for signaling; they have no account to list devices under
+  const user = authUser && !authUser.isAnonymous ? authUser : null
+  const [deviceId, setDeviceId] = React.useState("")
+  const [deviceName, setName] = React.useState("")
+  const [now, setNow] = React.useState(() => Date.now())
+
+  React.useEffect(() => {
+    setDeviceId(getDeviceId())
+    setName(getDeviceLabel())
+  }, [])
+
+  const query = React.useMemo(() => (user ? getDevicesCollection(db, user.uid) : null), [db, user])
+  const { data } = useCollection<DeviceRecord>(query)
+
+  React.useEffect(() => {
+    if (!user || !deviceId || !pairingCode) return
+    let stopPresence = () => {}
+    let stopped = false
+    registerDevice(db, user.uid, { id: deviceId, name: getDeviceLabel(), platform: getPlatform(), pairingCode, online: true })
+      .then(() => {
+        if (stopped) {
+          updateDevice(db, user.uid, deviceId, { pairingCode: null, online: false }).catch(() => undefined)
+        } else {
+          stopPresence = startPresence(db, user.uid, deviceId)
+        }
+      })
+      .catch((e) => {
+        console.warn("Could not register this device:", e)
+      })
+    // The code is released when FileJet unmounts; going offline stops advertising it
+    return () => {
+      stopped = true
+      stopPresence()
+    }
+  }, [db, user, deviceId, pairingCode])
+
+  // Devices go offline by missing heartbeats, which no snapshot reports, so re-check on a timer
+  React.useEffect(() => {
+    if (!user) return
+    const timer = setInterval(() => setNow(Date.now()), PRESENCE_HEARTBEAT_INTERVAL)
+    return () => clearInterval(timer)
+  }, [user])
+
+  const rename = React.useCallback(async (name: string) => {
+    setDeviceName(name)
+    setName(getDeviceLabel())
+    if (user && deviceId) await updateDevice(db, user.uid, deviceId, { name: getDeviceLabel() })
+  }, [db, user, deviceId])
+
+  const forget = React.useCallback((id: string) => {
+    return user ? removeDevice(db, user.uid, id) : Promise.resolve()
+  }, [db, user])
+
+  // Once signed out the rules no longer let this browser touch the record, so take it offline first
+  const signOut = React.useCallback(async () => {
+    if (user && deviceId) await updateDevice(db, user.uid, deviceId, { pairingCode: null, online: false }).catch(() => undefined)
+    await signOutOfAuth(auth)
+  }, [auth, db, user, deviceId])
+
+  return {
+    user,
+    loading,
+    deviceName,
+    /** Every device but this one, with `online` accounting for missed heartbeats. */
+    devices: (user ? data ?? [] : [])
+      .filter((device) => device.id !== deviceId)
+      .map((device) => ({ ...device, online: isDeviceOnline(device, now) })),
+    rename,
+    forget,
+    signOut,
+  }
+}
@@ -0,0 +1,51 @@
+"use client"
+
+import * as React from "react"
+import { signInAnonymously } from "firebase/auth"
+import { useAuth, useFirestore, useUser } from "@/firebase"
+import { SignalingTransport, getSignalingConfig } from "@/lib/signaling"
+import { createFirestoreTransport } from "@/lib/signaling/firestore-transport"
+import { DEFAULT_SIGNALING_PORT } from "@/lib/signaling/protocol"
+import { createWebSocketTransport } from "@/lib/signaling/websocket-transport"
+
+/**
+ * The signaling transport picked by NEXT_PUBLIC_SIGNALING_BACKEND. Null until it is ready.
+ */
+export function useSignaling() {
+  const db = useFirestore()
+  const auth = useAuth()
+  const { user, loading } = useUser()
+  const [transport, setTransport] = React.useState<SignalingTransport | null>(null)
+  const usesFirestore = getSignalingConfig().backend === "firestore"
+  // Signing in or out changes the uid, so the transport is recreated and a new code claimed
+  const uid = usesFirestore ? user?.uid ?? null : null
+
+  // Only a session's participants may write to it, and TURN credentials need an ID token, so
+  // visitors who aren't signed in get an anonymous user. The WebSocket backend vouches for its own users.
+  React.useEffect(() => {
+    if (!usesFirestore || loading || user) return
+    signInAnonymously(auth).catch((e) => {
+      console.warn("Could not sign in anonymously:", e)
+    })
+  }, [auth, usesFirestore, loading, user])
+
+  React.useEffect(() => {
+    const config = getSignalingConfig()
+    let next: SignalingTransport
+    if (config.backend === "websocket") {
+      next = createWebSocketTransport(config.url ?? `ws://${window.location.hostname}:${DEFAULT_SIGNALING_PORT}`)
+    } else if (db && uid) {
+      next = createFirestoreTransport(db, uid, async () => (await auth.currentUser?.getIdToken()) ?? null)
+    } else {
+      return
+    }
+
+    setTransport(next)
+    return () => {
+      setTransport(null)
+      next.close()
+    }
+  }, [db, auth, uid])
+
+  return transport
+}
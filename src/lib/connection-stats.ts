@@ -0,0 +1,120 @@
+import { BUFFER_THRESHOLD } from './webrtc-config';
+import { getSendWindow } from './send-scheduler';
+
+export type CandidateType = 'host' | 'srflx' | 'prflx' | 'relay';
+
+/**
+ * One poll of the peer connection, reduced to what helps explain a slow or stuck transfer.
+ */
+export type ConnectionSample = {
+  timestamp: number;
+  connectionState: RTCPeerConnectionState;
+  iceConnectionState: RTCIceConnectionState;
+  iceGatheringState: RTCIceGatheringState;
+  localCandidateType: CandidateType | null;
+  remoteCandidateType: CandidateType | null;
+  /** Transport to the relay when the local candidate is a relay, otherwise to the peer. */
+  protocol: string | null;
+  /** Milliseconds, as last measured by STUN consent checks. */
+  roundTripTime: number | null;
+  bytesSent: number;
+  bytesReceived: number;
+  /** Bytes per second since the previous sample. */
+  sendRate: number;
+  receiveRate: number;
+  /** Open data channels, including the control channel. */
+  dataChannels: number;
+  /** Summed over all data channels. */
+  bufferedAmount: number;
+  /** How much the send scheduler currently lets queue up, summed over all data channels. */
+  bufferThreshold: number;
+};
+
+export type DiagnosticsReport = {
+  generatedAt: string;
+  userAgent: string;
+  samples: ConnectionSample[];
+  selectedCandidatePair: Record<string, unknown> | null;
+};
+
+/**
+ * Finds the candidate pair the connection is actually using. Chrome reports it on the transport,
+ * Firefox flags it on the pair itself.
+ */
+const findSelectedPair = (report: RTCStatsReport): RTCIceCandidatePairStats | undefined => {
+  let selectedId: string | undefined;
+  report.forEach((stat) => {
+    if (stat.type === 'transport' && stat.selectedCandidatePairId) selectedId = stat.selectedCandidatePairId;
+  });
+  if (selectedId) return report.get(selectedId);
+
+  let selected: RTCIceCandidatePairStats | undefined;
+  report.forEach((stat) => {
+    if (stat.type !== 'candidate-pair') return;
+    if (stat.selected || (stat.nominated && stat.state === 'succeeded')) selected = stat;
+  });
+  return selected;
+};
+
+/**
+ * Polls the connection once. Rates are computed against the previous sample, if any.
+ */
+export const collectConnectionSample = async (
+  pc: RTCPeerConnection,
+  channels: RTCDataChannel[],
+  previous: ConnectionSample | null
+): Promise<{ sample: ConnectionSample; selectedPair: Record<string, unknown> | null }> => {
+  const report = await pc.getStats();
+  const pair = findSelectedPair(report);
+  const local = pair ? report.get(pair.localCandidateId) : null;
+  const remote = pair ? report.get(pair.remoteCandidateId) : null;
+
+  const open = channels.filter((dc) => dc.readyState === 'open');
+  const timestamp = Date.now();
+  const bytesSent = pair?.bytesSent ?? 0;
+  const bytesReceived = pair?.bytesReceived ?? 0;
+  const elapsed = previous ? (timestamp - previous.timestamp) / 1000 : 0;
+  const rate = (current: number, before: number | undefined) => {
+    return elapsed > 0 && before !== undefined ? Math.max(0, (current - before) / elapsed) : 0;
+  };
+
+  return {
+    sample: {
+      timestamp,
+      connectionState: pc.connectionState,
+      iceConnectionState: pc.iceConnectionState,
+      iceGatheringState: pc.iceGatheringState,
+      localCandidateType: local?.candidateType ?? null,
+      remoteCandidateType: remote?.candidateType ?? null,
+      protocol: local?.relayProtocol ?? local?.protocol ?? null,
+      roundTripTime: typeof pair?.currentRoundTripTime === 'number' ? pair.currentRoundTripTime * 1000 : null,
+      bytesSent,
+      bytesReceived,
+      sendRate: rate(bytesSent, previous?.bytesSent),
+      receiveRate: rate(bytesReceived, previous?.bytesReceived),
+      dataChannels: open.length,
+      bufferedAmount: open.reduce((total, dc) => total + dc.bufferedAmount, 0),
+      bufferThreshold: open.length > 0 ? open.reduce((total, dc) => total + getSendWindow(dc), 0) : BUFFER_THRESHOLD,
+    },
+    selectedPair: pair ? { ...pair, localCandidate: local ?? null, remoteCandidate: remote ?? null } : null,
+  };
+};
+
+export const buildDiagnosticsReport = (samples: ConnectionSample[], selectedPair: Record<string, unknown> | null): DiagnosticsReport => {
+  return {
+    generatedAt: new Date().toISOString(),
+    userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : '',
+    samples,
+    selectedCandidatePair: selectedPair,
+  };
+};
+
+/**
+ * Describes how the peers reach each other, e.g. "Direct (LAN)" or "Relayed via TURN".
+ */
+export const describeRoute = (local: CandidateType | null, remote: CandidateType | null) => {
+  if (!local || !remote) return 'Not connected';
+  if (local === 'relay' || remote === 'relay') return 'Relayed via TURN';
+  if (local === 'host' && remote === 'host') return 'Direct (LAN)';
+  return 'Direct (NAT traversal)';
+};
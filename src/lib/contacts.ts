@@ -0,0 +1,50 @@
+import { CollectionReference, Firestore, Timestamp, collection, deleteDoc, doc, serverTimestamp, setDoc, updateDoc } from 'firebase/firestore';
+
+/**
+ * - `prompt`: ask before accepting a connection, like any other peer.
+ * - `auto-accept`: connect without asking, and take transfers up to autoAcceptLimit without asking.
+ */
+export type ContactPolicy = 'prompt' | 'auto-accept';
+
+export const DEFAULT_AUTO_ACCEPT_LIMIT = 100 * 1024 * 1024; // 100MB
+
+/**
+ * A trusted peer, stored at `users/{uid}/contacts/{fingerprint}` with its identity key pinned.
+ */
+export type Contact = {
+  /** Fingerprint of the contact's identity key. */
+  id: string;
+  name: string;
+  /** Base64 identity key, as pinned when the contact was saved. */
+  publicKey: string;
+  policy: ContactPolicy;
+  autoAcceptLimit: number;
+  addedAt: Timestamp | null;
+};
+
+export const getContactsCollection = (db: Firestore, uid: string) => {
+  return collection(db, 'users', uid, 'contacts') as CollectionReference<Contact>;
+};
+
+export const getContactDoc = (db: Firestore, uid: string, fingerprint: string) => {
+  return doc(getContactsCollection(db, uid), fingerprint);
+};
+
+export const saveContact = (db: Firestore, uid: string, contact: Omit<Contact, 'addedAt'>) => {
+  return setDoc(getContactDoc(db, uid, contact.id), { ...contact, addedAt: serverTimestamp() });
+};
+
+export const updateContact = (db: Firestore, uid: string, fingerprint: string, fields: Partial<Pick<Contact, 'name' | 'policy' | 'autoAcceptLimit'>>) => {
+  return updateDoc(getContactDoc(db, uid, fingerprint), fields);
+};
+
+export const removeContact = (db: Firestore, uid: string, fingerprint: string) => {
+  return deleteDoc(getContactDoc(db, uid, fingerprint));
+};
+
+/**
+ * Whether a transfer from this contact can start without asking.
+ */
+export const shouldAutoAccept = (contact: Contact | null, totalSize: number) => {
+  return contact?.policy === 'auto-accept' && totalSize <= contact.autoAcceptLimit;
+};
@@ -0,0 +1,26 @@
+/**
+ * Large transfers are striped across several data channels ("lanes"). The main `fileTransfer` channel
+ * carries control messages and is lane 0; the sender opens the others alongside it. Every data frame
+ * carries its offset in the transfer stream, so the receiver can put chunks back in order.
+ */
+
+export const CONTROL_CHANNEL_LABEL = 'fileTransfer';
+const LANE_LABEL_PREFIX = 'fileTransfer-lane-';
+
+export const DEFAULT_DATA_CHANNELS = 4;
+export const MAX_DATA_CHANNELS = 8;
+
+/**
+ * How many lanes to stripe across. Set with NEXT_PUBLIC_DATA_CHANNELS; a `?channels=N` query
+ * parameter overrides it so throughput can be compared between settings.
+ */
+export const getDataChannelCount = () => {
+  const override = typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get('channels') : null;
+  const value = Number(override ?? process.env.NEXT_PUBLIC_DATA_CHANNELS ?? DEFAULT_DATA_CHANNELS);
+  if (!Number.isInteger(value)) return DEFAULT_DATA_CHANNELS;
+  return Math.min(MAX_DATA_CHANNELS, Math.max(1, value));
+};
+
+export const getLaneLabel = (index: number) => `${LANE_LABEL_PREFIX}${index}`;
+
+export const isLaneLabel = (label: string) => label.startsWith(LANE_LABEL_PREFIX);
@@ -0,0 +1,61 @@
+const DEVICE_ID_KEY = 'filejet-device-id';
+const DEVICE_NAME_KEY = 'filejet-device-name';
+
+const getBrowser = (ua: string) =>
+  /Edg\//.test(ua) ? 'Edge' :
+  /OPR\//.test(ua) ? 'Opera' :
+  /Firefox\//.test(ua) ? 'Firefox' :
+  /Chrome\//.test(ua) ? 'Chrome' :
+  /Safari\//.test(ua) ? 'Safari' :
+  'Browser';
+
+/**
+ * The operating system this browser runs on, e.g. "macOS".
+ */
+export const getPlatform = () => {
+  if (typeof navigator === 'undefined') return 'Unknown OS';
+  const ua = navigator.userAgent;
+
+  return (
+    /Android/.test(ua) ? 'Android' :
+    /iPhone|iPad|iPod/.test(ua) ? 'iOS' :
+    /Mac OS X/.test(ua) ? 'macOS' :
+    /Windows/.test(ua) ? 'Windows' :
+    /CrOS/.test(ua) ? 'ChromeOS' :
+    /Linux/.test(ua) ? 'Linux' :
+    'Unknown OS'
+  );
+};
+
+export const isMobilePlatform = (platform: string) => platform === 'Android' || platform === 'iOS';
+
+/**
+ * Returns the name the user gave this browser, or a human-readable label like "Chrome on macOS".
+ */
+export const getDeviceLabel = () => {
+  if (typeof navigator === 'undefined') return 'Unknown device';
+  return localStorage.getItem(DEVICE_NAME_KEY) || `${getBrowser(navigator.userAgent)} on ${getPlatform()}`;
+};
+
+/**
+ * Names this browser, e.g. "My Laptop". An empty name goes back to the generated label.
+ */
+export const setDeviceName = (name: string) => {
+  if (name.trim()) {
+    localStorage.setItem(DEVICE_NAME_KEY, name.trim());
+  } else {
+    localStorage.removeItem(DEVICE_NAME_KEY);
+  }
+};
+
+/**
+ * A random ID that stays with this browser, so it keeps one entry in the signed-in user's device list.
+ */
+export const getDeviceId = () => {
+  let id = localStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, id);
+  }
+  return id;
+};
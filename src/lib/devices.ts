@@ -0,0 +1,37 @@
+import { CollectionReference, Firestore, Timestamp, collection, deleteDoc, doc, serverTimestamp, setDoc, updateDoc } from 'firebase/firestore';
+
+/**
+ * A browser the user signed in on, stored at `users/{uid}/devices/{deviceId}`.
+ */
+export type DeviceRecord = {
+  id: string;
+  name: string;
+  platform: string;
+  /** The code the device can be reached on while FileJet is open, otherwise null. */
+  pairingCode: string | null;
+  /** Set while FileJet is open; see isDeviceOnline for how stale entries are treated. */
+  online: boolean;
+  /** Last heartbeat. Null until the server has applied the write. */
+  lastSeen: Timestamp | null;
+};
+
+export const getDevicesCollection = (db: Firestore, uid: string) => {
+  return collection(db, 'users', uid, 'devices') as CollectionReference<DeviceRecord>;
+};
+
+const deviceDoc = (db: Firestore, uid: string, id: string) => doc(getDevicesCollection(db, uid), id);
+
+/**
+ * Adds this device to the user's list, or refreshes its entry.
+ */
+export const registerDevice = (db: Firestore, uid: string, device: Omit<DeviceRecord, 'lastSeen'>) => {
+  return setDoc(deviceDoc(db, uid, device.id), { ...device, lastSeen: serverTimestamp() }, { merge: true });
+};
+
+export const updateDevice = (db: Firestore, uid: string, id: string, fields: Partial<Pick<DeviceRecord, 'name' | 'pairingCode' | 'online'>>) => {
+  return updateDoc(deviceDoc(db, uid, id), { ...fields, lastSeen: serverTimestamp() });
+};
+
+export const removeDevice = (db: Firestore, uid: string, id: string) => {
+  return deleteDoc(deviceDoc(db, uid, id));
+};
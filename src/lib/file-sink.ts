@@ -0,0 +1,210 @@
+import { ManifestEntry, TransferManifest, getBaseName, resolveFileHandle } from './transfer-manifest';
+
+export type SinkKind = 'memory' | 'file-system' | 'service-worker';
+
+// The File System Access pickers aren't in TypeScript's DOM library yet; only Chromium browsers have them
+declare global {
+  interface Window {
+    showSaveFilePicker?: (options?: { suggestedName?: string }) => Promise<FileSystemFileHandle>;
+    showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+  }
+}
+
+/**
+ * Destination for received data. Files are opened, written and closed one at a time in manifest order.
+ */
+export interface FileSink {
+  kind: SinkKind;
+  openFile(entry: ManifestEntry): Promise<void>;
+  write(chunk: Uint8Array): Promise<void>;
+  /** Resolves with the file contents for sinks that keep them, or null once they are on disk. */
+  closeFile(): Promise<Blob | null>;
+  abort(): Promise<void>;
+}
+
+// Transfers smaller than this stay in memory so the receiver isn't asked where to save every file
+export const STREAM_TO_DISK_THRESHOLD = 64 * 1024 * 1024; // 64MB
+
+const SERVICE_WORKER_URL = '/download-sw.js';
+const SERVICE_WORKER_DOWNLOAD_PATH = '/__filejet_download__/';
+
+/**
+ * Whether the browser can write straight to a user-picked file or folder.
+ */
+export const supportsFileSystemAccess = () => {
+  return typeof window !== 'undefined' && 'showSaveFilePicker' in window && 'showDirectoryPicker' in window;
+};
+
+/**
+ * Whether the transfer is large enough that it should not be buffered in memory.
+ */
+export const shouldStreamToDisk = (manifest: TransferManifest) => {
+  return manifest.totalSize >= STREAM_TO_DISK_THRESHOLD;
+};
+
+/**
+ * Keeps each file in memory and hands it back as a Blob. Used for small transfers and as a last resort.
+ */
+export const createMemorySink = (): FileSink => {
+  let chunks: Uint8Array[] = [];
+  let type = '';
+
+  return {
+    kind: 'memory',
+    openFile: async (entry) => {
+      chunks = [];
+      type = entry.type;
+    },
+    write: async (chunk) => {
+      chunks.push(chunk);
+    },
+    closeFile: async () => {
+      const blob = new Blob(chunks, { type });
+      chunks = [];
+      return blob;
+    },
+    abort: async () => {
+      chunks = [];
+    },
+  };
+};
+
+/**
+ * Asks the user where to save the transfer: a single file for one entry, a folder for several.
+ * Must be called from a user gesture.
+ */
+export const pickFileSystemSink = async (manifest: TransferManifest): Promise<FileSink> => {
+  if (!window.showSaveFilePicker || !window.showDirectoryPicker) {
+    throw new DOMException('Saving to a picked location is not supported in this browser.', 'NotSupportedError');
+  }
+
+  if (manifest.files.length === 1) {
+    const handle = await window.showSaveFilePicker({
+      suggestedName: getBaseName(manifest.files[0].path),
+    });
+    return createFileSystemSink(async () => handle);
+  }
+
+  const root = await window.showDirectoryPicker({ mode: 'readwrite' });
+  return createFileSystemSink((entry) => resolveFileHandle(root, entry.path));
+};
+
+const createFileSystemSink = (resolve: (entry: ManifestEntry) => Promise<FileSystemFileHandle>): FileSink => {
+  let writable: FileSystemWritableFileStream | null = null;
+
+  return {
+    kind: 'file-system',
+    openFile: async (entry) => {
+      const handle = await resolve(entry);
+      writable = await handle.createWritable();
+    },
+    write: async (chunk) => {
+      await writable?.write(chunk);
+    },
+    closeFile: async () => {
+      await writable?.close();
+      writable = null;
+      return null;
+    },
+    abort: async () => {
+      await writable?.abort();
+      writable = null;
+    },
+  };
+};
+
+/**
+ * Streams each file to a browser download through a service worker, so nothing is buffered in the page.
+ */
+export const createServiceWorkerSink = async (): Promise<FileSink> => {
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  await navigator.serviceWorker.ready;
+  const worker = registration.active;
+  if (!worker) throw new Error('Download service worker is not active');
+
+  let port: MessagePort | null = null;
+  let frame: HTMLIFrameElement | null = null;
+  // The worker acknowledges each chunk once its stream has room, which is what paces write()
+  let acknowledged: { resolve: () => void; reject: (error: unknown) => void } | null = null;
+  let cancelled = false;
+
+  const settleWrite = (error?: unknown) => {
+    const waiting = acknowledged;
+    acknowledged = null;
+    if (error) waiting?.reject(error);
+    else waiting?.resolve();
+  };
+
+  const removeFrame = (target: HTMLIFrameElement | null) => {
+    // Give the browser time to pick up the download before dropping the frame
+    if (target) setTimeout(() => target.remove(), 60_000);
+  };
+
+  return {
+    kind: 'service-worker',
+    openFile: async (entry) => {
+      const id = crypto.randomUUID();
+      const channel = new MessageChannel();
+      port = channel.port1;
+      cancelled = false;
+
+      const ready = new Promise<void>((resolve) => {
+        channel.port1.onmessage = (event) => {
+          if (event.data === 'ready') {
+            resolve();
+          } else if (event.data === 'ack') {
+            settleWrite();
+          } else if (event.data === 'cancel') {
+            // The user stopped the download, so nothing more can be written to this file
+            cancelled = true;
+            settleWrite(new DOMException('The download was cancelled.', 'AbortError'));
+          }
+        };
+      });
+      worker.postMessage({ id, name: getBaseName(entry.path), size: entry.size, type: entry.type }, [channel.port2]);
+      await ready;
+
+      frame = document.createElement('iframe');
+      frame.hidden = true;
+      frame.src = `${SERVICE_WORKER_DOWNLOAD_PATH}${id}`;
+      document.body.appendChild(frame);
+    },
+    write: (chunk) => {
+      const target = port;
+      if (!target) return Promise.resolve();
+      if (cancelled) return Promise.reject(new DOMException('The download was cancelled.', 'AbortError'));
+      return new Promise<void>((resolve, reject) => {
+        acknowledged = { resolve, reject };
+        target.postMessage(chunk, [chunk.buffer]);
+      });
+    },
+    closeFile: async () => {
+      port?.postMessage('end');
+      port = null;
+      removeFrame(frame);
+      frame = null;
+      return null;
+    },
+    abort: async () => {
+      settleWrite(new DOMException('The transfer was discarded.', 'AbortError'));
+      port?.postMessage('abort');
+      port = null;
+      frame?.remove();
+      frame = null;
+    },
+  };
+};
+
+/**
+ * Picks a sink that doesn't need a user gesture: a streamed download for large transfers, memory otherwise.
+ */
+export const createDefaultSink = async (manifest: TransferManifest): Promise<FileSink> => {
+  if (shouldStreamToDisk(manifest) && 'serviceWorker' in navigator) {
+    try {
+      return await createServiceWorkerSink();
+    } catch (e) {
+      console.warn('Falling back to in-memory transfer:', e);
+    }
+  }
+  return createMemorySink();
+};
@@ -0,0 +1,95 @@
+import { KEYS_STORE, getValue, putValue } from './local-db';
+
+/**
+ * A long-lived ECDSA (P-256) key that identifies this browser across connections. The private key
+ * is stored non-extractable in IndexedDB. Once the secure channel is up, each peer signs the
+ * session's handshake hash with it; a relaying attacker sees a different hash on each side, so it
+ * can't pass a signature on.
+ */
+
+const IDENTITY_KEY = 'identity';
+const SIGNATURE_ALGORITHM = { name: 'ECDSA', hash: 'SHA-256' };
+const KEY_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' };
+
+// How long a peer that was let in without asking has to prove it holds the contact's key
+export const IDENTITY_TIMEOUT = 10 * 1000; // 10s
+
+export type Identity = {
+  privateKey: CryptoKey;
+  publicKey: Uint8Array;
+  /** Hex SHA-256 of the public key; what contacts are keyed by. */
+  fingerprint: string;
+};
+
+export type IdentityPayload = {
+  publicKey: string;
+  signature: string;
+};
+
+const encoder = new TextEncoder();
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+const signedData = (binding: Uint8Array) => {
+  const prefix = encoder.encode('filejet-identity');
+  const data = new Uint8Array(prefix.byteLength + binding.byteLength);
+  data.set(prefix);
+  data.set(binding, prefix.byteLength);
+  return data;
+};
+
+export const getFingerprint = async (publicKey: Uint8Array) => {
+  const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', publicKey));
+  return Array.from(hash, (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Shortens a fingerprint for display, e.g. "3fa2 91c0 7d4e 0b18".
+ */
+export const formatFingerprint = (fingerprint: string) => {
+  return fingerprint.slice(0, 16).match(/.{4}/g)!.join(' ');
+};
+
+let identity: Promise<Identity> | null = null;
+
+/**
+ * This browser's identity, created on first use.
+ */
+export const getIdentity = () => {
+  identity ??= (async () => {
+    let pair = await getValue<CryptoKeyPair>(KEYS_STORE, IDENTITY_KEY);
+    if (!pair) {
+      pair = await crypto.subtle.generateKey(KEY_ALGORITHM, false, ['sign', 'verify']);
+      await putValue(KEYS_STORE, IDENTITY_KEY, pair);
+    }
+    const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', pair.publicKey));
+    return { privateKey: pair.privateKey, publicKey, fingerprint: await getFingerprint(publicKey) };
+  })();
+  identity.catch(() => {
+    identity = null;
+  });
+  return identity;
+};
+
+/**
+ * Proves to the peer that this browser holds its identity key, for this session only.
+ */
+export const signSession = async ({ privateKey, publicKey }: Identity, binding: Uint8Array): Promise<IdentityPayload> => {
+  const signature = new Uint8Array(await crypto.subtle.sign(SIGNATURE_ALGORITHM, privateKey, signedData(binding)));
+  return { publicKey: toBase64(publicKey), signature: toBase64(signature) };
+};
+
+/**
+ * Checks a peer's signature over this session. Returns its fingerprint, or null if it doesn't verify.
+ */
+export const verifySession = async ({ publicKey, signature }: IdentityPayload, binding: Uint8Array) => {
+  try {
+    const raw = fromBase64(publicKey);
+    const key = await crypto.subtle.importKey('raw', raw, KEY_ALGORITHM, false, ['verify']);
+    const valid = await crypto.subtle.verify(SIGNATURE_ALGORITHM, key, fromBase64(signature), signedData(binding));
+    return valid ? getFingerprint(raw) : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,108 @@
+/**
+ * Size of the blocks each file is hashed in. Web Crypto can't hash incrementally, so a file's
+ * digest is the SHA-256 of its block digests, which both sides can compute without buffering the file.
+ * It is not the file's plain SHA-256 and won't match what `sha256sum` prints.
+ */
+export const INTEGRITY_BLOCK_SIZE = 4 * 1024 * 1024; // 4MB
+
+// Block digests are only sent for files that fit comfortably in a single data channel message
+export const MAX_BLOCK_DIGESTS = 1024;
+
+export type FileDigest = {
+  /** Hex SHA-256 over the concatenated block digests. */
+  treeHash: string;
+  blocks?: string[];
+};
+
+const toHex = (buffer: ArrayBuffer) => {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const fromHex = (hex: string) => {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+};
+
+const sha256 = async (data: Uint8Array) => {
+  return toHex(await crypto.subtle.digest('SHA-256', data));
+};
+
+const combineBlocks = async (blocks: string[]): Promise<FileDigest> => {
+  const joined = new Uint8Array(blocks.length * 32);
+  blocks.forEach((block, i) => joined.set(fromHex(block), i * 32));
+  return {
+    treeHash: await sha256(joined),
+    blocks: blocks.length <= MAX_BLOCK_DIGESTS ? blocks : undefined,
+  };
+};
+
+/**
+ * Hashes a file block by block, reading one block into memory at a time.
+ */
+export const hashFile = async (file: Blob): Promise<FileDigest> => {
+  const blocks: string[] = [];
+  for (let offset = 0; offset < file.size; offset += INTEGRITY_BLOCK_SIZE) {
+    const block = await file.slice(offset, offset + INTEGRITY_BLOCK_SIZE).arrayBuffer();
+    blocks.push(await sha256(new Uint8Array(block)));
+  }
+  return combineBlocks(blocks);
+};
+
+export interface BlockHasher {
+  update(chunk: Uint8Array): Promise<void>;
+  finish(): Promise<FileDigest>;
+}
+
+/**
+ * Hashes data as it arrives in arbitrarily sized chunks, holding at most one block in memory.
+ */
+export const createBlockHasher = (): BlockHasher => {
+  const blocks: string[] = [];
+  let buffer = new Uint8Array(INTEGRITY_BLOCK_SIZE);
+  let filled = 0;
+
+  return {
+    update: async (chunk) => {
+      let read = 0;
+      while (read < chunk.byteLength) {
+        const take = Math.min(chunk.byteLength - read, INTEGRITY_BLOCK_SIZE - filled);
+        buffer.set(chunk.subarray(read, read + take), filled);
+        filled += take;
+        read += take;
+
+        if (filled === INTEGRITY_BLOCK_SIZE) {
+          blocks.push(await sha256(buffer));
+          buffer = new Uint8Array(INTEGRITY_BLOCK_SIZE);
+          filled = 0;
+        }
+      }
+    },
+    finish: async () => {
+      if (filled > 0) {
+        blocks.push(await sha256(buffer.subarray(0, filled)));
+        filled = 0;
+      }
+      return combineBlocks(blocks);
+    },
+  };
+};
+
+/**
+ * Compares a received file with the sender's digest. Returns the indexes of mismatched blocks,
+ * or null if the file matches.
+ */
+export const findMismatchedBlocks = (expected: FileDigest | undefined, actual: FileDigest | undefined) => {
+  if (!expected || !actual) return [];
+  if (expected.treeHash === actual.treeHash) return null;
+  if (!expected.blocks || !actual.blocks) return [];
+
+  const length = Math.max(expected.blocks.length, actual.blocks.length);
+  const mismatched: number[] = [];
+  for (let i = 0; i < length; i++) {
+    if (expected.blocks[i] !== actual.blocks[i]) mismatched.push(i);
+  }
+  return mismatched;
+};
@@ -0,0 +1,27 @@
+import { normalizePairingCode, isValidPairingCode } from './pairing-code';
+
+const JOIN_PATH = '/r/';
+
+/**
+ * Builds a link that opens FileJet and connects to the device holding the given pairing code.
+ */
+export const buildJoinUrl = (code: string) => {
+  return new URL(`${JOIN_PATH}${encodeURIComponent(code)}`, window.location.origin).toString();
+};
+
+/**
+ * Extracts a pairing code from a scanned join link or a bare code. Returns null if there is none.
+ */
+export const parseJoinCode = (text: string) => {
+  let candidate = text.trim();
+
+  try {
+    const url = new URL(candidate);
+    candidate = url.pathname.startsWith(JOIN_PATH) ? decodeURIComponent(url.pathname.slice(JOIN_PATH.length)) : '';
+  } catch (e) {
+    // Not a URL, so treat it as a typed or scanned code
+  }
+
+  const code = normalizePairingCode(candidate);
+  return isValidPairingCode(code) ? code : null;
+};
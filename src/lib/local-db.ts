@@ -0,0 +1,76 @@
+/**
+ * FileJet's IndexedDB database, for what has to stay on this device.
+ */
+
+const DB_NAME = 'filejet';
+const DB_VERSION = 2;
+
+export const KEYS_STORE = 'keys';
+export const HISTORY_STORE = 'history';
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(KEYS_STORE)) db.createObjectStore(KEYS_STORE);
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer tab upgrade the schema instead of blocking it
+      db.onversionchange = () => {
+        db.close();
+        database = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      database = null;
+      reject(request.error);
+    };
+  });
+  return database;
+};
+
+const promisify = <T>(request: IDBRequest<T>) => {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getValue = async <T>(store: string, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store).objectStore(store).get(key));
+};
+
+export const putValue = async (store: string, key: IDBValidKey | undefined, value: unknown) => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value, key));
+};
+
+export const getAllValues = async <T>(store: string): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store).objectStore(store).getAll());
+};
+
+/**
+ * Writes several values in one transaction, so either all of them are stored or none.
+ */
+export const putValues = async (store: string, values: unknown[]) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, 'readwrite');
+  values.forEach((value) => transaction.objectStore(store).put(value));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const clearStore = async (store: string) => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).clear());
+};
@@ -0,0 +1,66 @@
+// 256 short, distinct words so each one maps to exactly one random byte
+const WORDS = [
+  'acorn', 'almond', 'amber', 'anchor', 'apple', 'arrow', 'aspen', 'atlas', 'autumn', 'badge',
+  'badger', 'bamboo', 'banjo', 'banner', 'basil', 'beacon', 'beaver', 'beetle', 'berry', 'birch',
+  'bison', 'blossom', 'bonsai', 'breeze', 'brick', 'bridge', 'brook', 'bubble', 'bucket', 'cabin',
+  'cactus', 'camel', 'candle', 'canoe', 'canyon', 'carbon', 'carpet', 'castle', 'cedar', 'cello',
+  'chalk', 'cherry', 'chess', 'cider', 'cinder', 'citrus', 'clover', 'cobalt', 'cobra', 'comet',
+  'compass', 'copper', 'coral', 'cosmos', 'cotton', 'coyote', 'crane', 'crater', 'cricket',
+  'crystal', 'cycle', 'dagger', 'daisy', 'delta', 'desert', 'dingo', 'dolphin', 'donkey', 'dragon',
+  'drift', 'dune', 'eagle', 'echo', 'eclipse', 'ember', 'emerald', 'engine', 'falcon', 'fern',
+  'ferry', 'fiddle', 'field', 'flame', 'flint', 'forest', 'fossil', 'fountain', 'fox', 'galaxy',
+  'garden', 'garnet', 'gecko', 'geyser', 'ginger', 'glacier', 'globe', 'goose', 'granite', 'grape',
+  'gravel', 'griffin', 'grove', 'guitar', 'hammer', 'harbor', 'harvest', 'hazel', 'helmet',
+  'heron', 'hickory', 'honey', 'horizon', 'husky', 'igloo', 'indigo', 'iris', 'island', 'ivory',
+  'jacket', 'jaguar', 'jasmine', 'jelly', 'jigsaw', 'jungle', 'juniper', 'kayak', 'kernel',
+  'kettle', 'kiwi', 'koala', 'ladder', 'lagoon', 'lantern', 'lava', 'lemon', 'lily', 'linen',
+  'lizard', 'llama', 'lobster', 'lotus', 'lunar', 'magnet', 'mango', 'maple', 'marble', 'marlin',
+  'meadow', 'melon', 'meteor', 'mint', 'mirror', 'monsoon', 'moose', 'mosaic', 'moss', 'nectar',
+  'needle', 'nickel', 'noodle', 'nova', 'nutmeg', 'oasis', 'ocean', 'olive', 'onyx', 'opal',
+  'orbit', 'orchid', 'otter', 'owl', 'oyster', 'paddle', 'panda', 'panther', 'paper', 'parrot',
+  'pebble', 'pepper', 'piano', 'pigeon', 'pilot', 'pine', 'planet', 'plume', 'pocket', 'polar',
+  'pond', 'poppy', 'prism', 'puffin', 'pumpkin', 'quartz', 'quill', 'rabbit', 'radar', 'rain',
+  'raisin', 'raven', 'reef', 'rhino', 'ribbon', 'ridge', 'river', 'robin', 'rocket', 'saddle',
+  'saffron', 'salmon', 'sandal', 'sapphire', 'satin', 'scarlet', 'sierra', 'signal', 'silver',
+  'sketch', 'sleet', 'socket', 'solar', 'sparrow', 'spruce', 'squid', 'stone', 'storm', 'summit',
+  'sunset', 'swan', 'tango', 'tiger', 'timber', 'toast', 'topaz', 'torch', 'tractor', 'trumpet',
+  'tulip', 'tundra', 'tunnel', 'turtle', 'twig', 'umber', 'unicorn', 'valley', 'vapor', 'velvet',
+  'violet', 'vortex', 'waffle', 'wagon', 'walnut', 'walrus', 'willow', 'window', 'winter',
+  'wizard',
+];
+
+const MAX_NUMBER = 999;
+
+const randomBelow = (limit: number) => {
+  // Rejection sampling keeps every value equally likely
+  const range = Math.floor(0x100000000 / limit) * limit;
+  const buffer = new Uint32Array(1);
+  do {
+    crypto.getRandomValues(buffer);
+  } while (buffer[0] >= range);
+  return buffer[0] % limit;
+};
+
+/**
+ * Generates a pairing code such as "7-orbit-lantern" from a cryptographically secure source.
+ */
+export const generatePairingCode = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(2));
+  const number = randomBelow(MAX_NUMBER) + 1;
+  return `${number}-${WORDS[bytes[0]]}-${WORDS[bytes[1]]}`;
+};
+
+/**
+ * Normalizes user input so "7 Orbit Lantern" and "7-orbit-lantern" match.
+ */
+export const normalizePairingCode = (input: string) => {
+  return input.trim().toLowerCase().replace(/[\s_]+/g, '-').replace(/[^a-z0-9-]/g, '').replace(/-+/g, '-');
+};
+
+/**
+ * Checks that a normalized code has the shape produced by generatePairingCode.
+ */
+export const isValidPairingCode = (code: string) => {
+  const match = /^(\d{1,3})-([a-z]+)-([a-z]+)$/.exec(code);
+  return !!match && WORDS.includes(match[2]) && WORDS.includes(match[3]);
+};
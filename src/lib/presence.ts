@@ -0,0 +1,44 @@
+import { Firestore } from 'firebase/firestore';
+import { DeviceRecord, updateDevice } from './devices';
+
+/**
+ * Whether a device has FileJet open. An open page bumps its device's lastSeen on every heartbeat and
+ * clears `online` when it closes; a page that dies without closing stops heartbeating, so a device
+ * also counts as offline once its last heartbeat is older than PRESENCE_TIMEOUT.
+ */
+
+// Background tabs run timers at most once a minute, which still fits inside the timeout
+export const PRESENCE_HEARTBEAT_INTERVAL = 30 * 1000; // 30s
+export const PRESENCE_TIMEOUT = 90 * 1000; // 90s
+
+/**
+ * Compares against the local clock, so a device whose clock is far off may show the wrong state.
+ */
+export const isDeviceOnline = (device: DeviceRecord, now = Date.now()) => {
+  if (!device.online) return false;
+  // A null lastSeen is our own write that the server hasn't stamped yet
+  return !device.lastSeen || now - device.lastSeen.toMillis() < PRESENCE_TIMEOUT;
+};
+
+/**
+ * Heartbeats for this device until the returned function is called, then marks it offline.
+ * The device must already be registered.
+ */
+export const startPresence = (db: Firestore, uid: string, deviceId: string) => {
+  const heartbeat = () => {
+    updateDevice(db, uid, deviceId, { online: true }).catch(() => undefined);
+  };
+  const goOffline = () => {
+    updateDevice(db, uid, deviceId, { online: false, pairingCode: null }).catch(() => undefined);
+  };
+
+  const timer = setInterval(heartbeat, PRESENCE_HEARTBEAT_INTERVAL);
+  // Unmount effects don't run when the tab closes, so catch that separately
+  window.addEventListener('pagehide', goOffline);
+
+  return () => {
+    clearInterval(timer);
+    window.removeEventListener('pagehide', goOffline);
+    goOffline();
+  };
+};
@@ -0,0 +1,51 @@
+export type QrDetector = (video: HTMLVideoElement) => Promise<string | null>;
+
+// The Barcode Detection API isn't in TypeScript's DOM library; only some browsers ship it
+interface BarcodeDetector {
+  detect(source: CanvasImageSource): Promise<{ rawValue: string }[]>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: {
+      new (options?: { formats: string[] }): BarcodeDetector;
+      getSupportedFormats(): Promise<string[]>;
+    };
+  }
+}
+
+// jsQR runs on the main thread, so decode at most this often
+export const SCAN_INTERVAL = 200; // ms
+
+/**
+ * Returns a function that reads a QR code from the current video frame. Uses the native
+ * BarcodeDetector where it supports QR codes, and falls back to decoding frames with jsQR.
+ */
+export const createQrDetector = async (): Promise<QrDetector> => {
+  const NativeDetector = window.BarcodeDetector;
+  if (NativeDetector) {
+    const formats = await NativeDetector.getSupportedFormats().catch((): string[] => []);
+    if (formats.includes('qr_code')) {
+      const detector = new NativeDetector({ formats: ['qr_code'] });
+      return async (video) => {
+        const codes = await detector.detect(video);
+        return codes[0]?.rawValue ?? null;
+      };
+    }
+  }
+
+  const { default: jsQR } = await import('jsqr');
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+
+  return async (video) => {
+    const { videoWidth: width, videoHeight: height } = video;
+    if (!context || !width || !height) return null;
+
+    canvas.width = width;
+    canvas.height = height;
+    context.drawImage(video, 0, 0, width, height);
+    const image = context.getImageData(0, 0, width, height);
+    return jsQR(image.data, width, height, { inversionAttempts: 'dontInvert' })?.data ?? null;
+  };
+};
@@ -0,0 +1,311 @@
+/**
+ * Application-layer encryption on top of an RTCDataChannel.
+ *
+ * DTLS only protects the hop between two browsers, and the SDP that pins it travels through the
+ * signaling store. To detect a man-in-the-middle, peers run an ECDH (P-256) exchange over the channel
+ * and show a short verification code derived from both public keys. The initiator commits to its key
+ * before seeing the responder's, so an attacker can't grind keys until the codes collide.
+ *
+ * Every message after the handshake is AES-GCM encrypted with a per-direction key and a counter nonce.
+ * Further data channels can be attached to a secure channel; they get their own keys, derived from
+ * the same handshake and bound to the channel label, so they need no handshake of their own.
+ */
+
+export type ChannelRole = 'initiator' | 'responder';
+
+export type SecureChannelHandlers = {
+  onReady: (verificationCode: string) => void;
+  onMessage: (data: string | ArrayBuffer) => void;
+  onError: (error: unknown) => void;
+};
+
+export interface SecureChannel {
+  channel: RTCDataChannel;
+  isReady(): boolean;
+  send(data: string | ArrayBuffer | Uint8Array): Promise<void>;
+  /** Encrypts another data channel with keys derived from this channel's handshake. Takes over its onmessage. */
+  attach(dc: RTCDataChannel, handlers: Omit<SecureChannelHandlers, 'onReady'>): SecureChannel;
+  /** A hash of both handshake keys, the same on both peers and unique to this session. */
+  getSessionBinding(): Promise<Uint8Array>;
+}
+
+type HandshakeResult = {
+  secret: CryptoKey;
+  salt: Uint8Array;
+  local: Uint8Array;
+  remote: Uint8Array;
+};
+
+/**
+ * Sent in the clear before keys exist. The initiator commits to its key, then both reveal theirs.
+ */
+type HandshakeMessage =
+  | { type: 'key-commit'; commitment: string }
+  | { type: 'key-exchange'; publicKey: string };
+
+// Raw uncompressed P-256 point, and a SHA-256 digest
+const PUBLIC_KEY_LENGTH = 65;
+const COMMITMENT_LENGTH = 32;
+
+const KIND_TEXT = 1;
+const KIND_BINARY = 2;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// Bytes each encrypted message adds to its payload: IV, kind byte and GCM tag
+export const SECURE_FRAME_OVERHEAD = IV_LENGTH + 1 + TAG_LENGTH;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+/**
+ * Parses a handshake message from the peer, rejecting anything that isn't one.
+ */
+const parseHandshakeMessage = (data: string): HandshakeMessage => {
+  const message: unknown = JSON.parse(data);
+  if (typeof message === 'object' && message !== null) {
+    const { type, commitment, publicKey } = message as Record<string, unknown>;
+    if (type === 'key-commit' && typeof commitment === 'string') return { type, commitment };
+    if (type === 'key-exchange' && typeof publicKey === 'string') return { type, publicKey };
+  }
+  throw new Error('Malformed handshake message');
+};
+
+/**
+ * Decodes a base64 handshake field, checking it has the size the handshake expects.
+ */
+const decodeHandshakeField = (value: string, length: number) => {
+  const bytes = fromBase64(value);
+  if (bytes.byteLength !== length) throw new Error('Malformed handshake message');
+  return bytes;
+};
+
+const concat = (...parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.byteLength;
+  }
+  return result;
+};
+
+const sha256 = async (data: Uint8Array) => new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+
+const counterIv = (counter: number) => {
+  const iv = new Uint8Array(IV_LENGTH);
+  new DataView(iv.buffer).setBigUint64(4, BigInt(counter));
+  return iv;
+};
+
+/**
+ * Derives the 6-digit code both users compare. Keys are ordered initiator first so both sides agree.
+ */
+const deriveVerificationCode = async (initiatorKey: Uint8Array, responderKey: Uint8Array) => {
+  const hash = await sha256(concat(encoder.encode('filejet-sas'), initiatorKey, responderKey));
+  const value = new DataView(hash.buffer).getUint32(0) % 1_000_000;
+  const digits = value.toString().padStart(6, '0');
+  return `${digits.slice(0, 3)} ${digits.slice(3)}`;
+};
+
+const deriveDirectionalKey = async (secret: CryptoKey, salt: Uint8Array, info: Uint8Array, usage: KeyUsage) => {
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info },
+    secret,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    [usage]
+  );
+};
+
+/**
+ * Derives the send and receive keys for a channel. The main channel keeps the original key info;
+ * attached channels mix in their label so no two channels share a key and counter space.
+ */
+const deriveChannelKeys = async ({ secret, salt, local, remote }: HandshakeResult, label?: string) => {
+  const prefix = label === undefined ? encoder.encode('filejet-aes') : concat(encoder.encode('filejet-aes-channel'), encoder.encode(label));
+  return {
+    sendKey: await deriveDirectionalKey(secret, salt, concat(prefix, local, remote), 'encrypt'),
+    receiveKey: await deriveDirectionalKey(secret, salt, concat(prefix, remote, local), 'decrypt'),
+  };
+};
+
+/**
+ * Encrypts and decrypts the frames of one channel: iv || AES-GCM(kind byte || payload).
+ * Each direction has its own counter, which doubles as the nonce and as a replay check.
+ */
+const createCipher = (sendKey: CryptoKey, receiveKey: CryptoKey) => {
+  let sendCounter = 0;
+  let receiveCounter = 0;
+
+  return {
+    decrypt: async (frame: ArrayBuffer) => {
+      const iv = new Uint8Array(frame, 0, IV_LENGTH);
+      const counter = Number(new DataView(frame).getBigUint64(4));
+      if (counter !== receiveCounter) throw new Error('Unexpected message counter');
+      receiveCounter++;
+
+      const plain = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, receiveKey, new Uint8Array(frame, IV_LENGTH)));
+      const body = plain.subarray(1);
+      return plain[0] === KIND_TEXT ? decoder.decode(body) : body.slice().buffer;
+    },
+    encrypt: async (data: string | ArrayBuffer | Uint8Array) => {
+      const kind = typeof data === 'string' ? KIND_TEXT : KIND_BINARY;
+      const body = typeof data === 'string' ? encoder.encode(data) : new Uint8Array(data instanceof ArrayBuffer ? data : data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+      const iv = counterIv(sendCounter++);
+      const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, sendKey, concat(new Uint8Array([kind]), body));
+      return concat(iv, new Uint8Array(cipher));
+    },
+  };
+};
+
+type Cipher = ReturnType<typeof createCipher>;
+
+/**
+ * Sends and receives through a cipher that becomes available later. Sends and receives are each
+ * processed one at a time, in order, so counters line up on both sides.
+ */
+const createPipe = (dc: RTCDataChannel, onError: (error: unknown) => void) => {
+  let cipher: Cipher | null = null;
+  let sendChain: Promise<void> = Promise.resolve();
+  let receiveChain: Promise<void> = Promise.resolve();
+
+  return {
+    setCipher: (next: Cipher) => {
+      cipher = next;
+    },
+    hasCipher: () => cipher !== null,
+    receive: (task: () => Promise<void>) => {
+      receiveChain = receiveChain.then(task).catch(onError);
+    },
+    decrypt: (frame: ArrayBuffer) => cipher!.decrypt(frame),
+    send: (data: string | ArrayBuffer | Uint8Array) => {
+      const sent = sendChain.then(async () => {
+        if (!cipher) throw new Error('Secure channel is not ready');
+        const frame = await cipher.encrypt(data);
+        dc.send(frame);
+      });
+      sendChain = sent.catch(() => undefined);
+      return sent;
+    },
+  };
+};
+
+/**
+ * Encrypts a channel with keys derived once the parent's handshake completes. Messages that arrive
+ * earlier wait for the keys.
+ */
+const attachChannel = (dc: RTCDataChannel, handshake: Promise<HandshakeResult>, handlers: Omit<SecureChannelHandlers, 'onReady'>): SecureChannel => {
+  dc.binaryType = 'arraybuffer';
+  const pipe = createPipe(dc, handlers.onError);
+  const keys = handshake.then((result) => deriveChannelKeys(result, dc.label));
+  keys.then(({ sendKey, receiveKey }) => pipe.setCipher(createCipher(sendKey, receiveKey)), handlers.onError);
+
+  dc.onmessage = (event) => {
+    pipe.receive(async () => {
+      if (typeof event.data === 'string') return;
+      await keys;
+      handlers.onMessage(await pipe.decrypt(event.data));
+    });
+  };
+
+  return {
+    channel: dc,
+    isReady: pipe.hasCipher,
+    send: pipe.send,
+    attach: (next, nextHandlers) => attachChannel(next, handshake, nextHandlers),
+    getSessionBinding: () => handshake.then(({ salt }) => salt),
+  };
+};
+
+/**
+ * Wraps a data channel so everything sent through it is encrypted once the handshake completes.
+ * Takes over the channel's onmessage handler.
+ */
+export const createSecureChannel = (dc: RTCDataChannel, role: ChannelRole, handlers: SecureChannelHandlers): SecureChannel => {
+  dc.binaryType = 'arraybuffer';
+
+  const keyPair = crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveBits']);
+  const localKey = keyPair.then(async (pair) => new Uint8Array(await crypto.subtle.exportKey('raw', pair.publicKey)));
+
+  let commitment: Uint8Array | null = null;
+  let resolveHandshake: (result: HandshakeResult) => void = () => {};
+  const handshake = new Promise<HandshakeResult>((resolve) => {
+    resolveHandshake = resolve;
+  });
+  const pipe = createPipe(dc, handlers.onError);
+
+  const sendHandshake = (message: HandshakeMessage) => {
+    if (dc.readyState === 'open') dc.send(JSON.stringify(message));
+  };
+
+  const completeHandshake = async (remoteKey: Uint8Array) => {
+    const pair = await keyPair;
+    const local = await localKey;
+    const remote = await crypto.subtle.importKey('raw', remoteKey, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+    const shared = await crypto.subtle.deriveBits({ name: 'ECDH', public: remote }, pair.privateKey, 256);
+    const secret = await crypto.subtle.importKey('raw', shared, 'HKDF', false, ['deriveKey']);
+
+    const [initiatorKey, responderKey] = role === 'initiator' ? [local, remoteKey] : [remoteKey, local];
+    const salt = await sha256(concat(initiatorKey, responderKey));
+    const result = { secret, salt, local, remote: remoteKey };
+    const { sendKey, receiveKey } = await deriveChannelKeys(result);
+    pipe.setCipher(createCipher(sendKey, receiveKey));
+    resolveHandshake(result);
+
+    handlers.onReady(await deriveVerificationCode(initiatorKey, responderKey));
+  };
+
+  const handleHandshake = async (message: HandshakeMessage) => {
+    if (message.type === 'key-commit' && role === 'responder') {
+      commitment = decodeHandshakeField(message.commitment, COMMITMENT_LENGTH);
+      sendHandshake({ type: 'key-exchange', publicKey: toBase64(await localKey) });
+    } else if (message.type === 'key-exchange' && role === 'initiator') {
+      const remoteKey = decodeHandshakeField(message.publicKey, PUBLIC_KEY_LENGTH);
+      sendHandshake({ type: 'key-exchange', publicKey: toBase64(await localKey) });
+      await completeHandshake(remoteKey);
+    } else if (message.type === 'key-exchange' && role === 'responder') {
+      const remoteKey = decodeHandshakeField(message.publicKey, PUBLIC_KEY_LENGTH);
+      const expected = commitment ? toBase64(commitment) : null;
+      if (expected !== toBase64(await sha256(remoteKey))) {
+        throw new Error('Peer key does not match its commitment');
+      }
+      await completeHandshake(remoteKey);
+    }
+  };
+
+  dc.onmessage = (event) => {
+    pipe.receive(async () => {
+      if (typeof event.data === 'string') {
+        // Only handshake messages travel in the clear, and only before keys are set
+        if (!pipe.hasCipher()) await handleHandshake(parseHandshakeMessage(event.data));
+        return;
+      }
+      if (!pipe.hasCipher()) return;
+      handlers.onMessage(await pipe.decrypt(event.data));
+    });
+  };
+
+  const start = async () => {
+    if (role === 'initiator') {
+      sendHandshake({ type: 'key-commit', commitment: toBase64(await sha256(await localKey)) });
+    }
+  };
+
+  if (dc.readyState === 'open') {
+    start().catch(handlers.onError);
+  } else {
+    dc.addEventListener('open', () => start().catch(handlers.onError));
+  }
+
+  return {
+    channel: dc,
+    isReady: pipe.hasCipher,
+    send: pipe.send,
+    attach: (next, nextHandlers) => attachChannel(next, handshake, nextHandlers),
+    getSessionBinding: () => handshake.then(({ salt }) => salt),
+  };
+};
@@ -0,0 +1,105 @@
+import { BUFFER_THRESHOLD, CHUNK_SIZE } from './webrtc-config';
+import { SECURE_FRAME_OVERHEAD } from './secure-channel';
+import { FRAME_HEADER_SIZE } from './wire-protocol';
+
+// Larger messages stall other traffic on the channel for longer without making transfers faster
+export const MAX_CHUNK_SIZE = 256 * 1024; // 256KB
+// Upper bound on data queued in the channel, so a fast reader can't buffer a whole file
+export const MAX_SEND_WINDOW = 16 * 1024 * 1024; // 16MB
+// Keep enough queued to cover this much time at the measured rate, so the channel never runs dry
+const WINDOW_DURATION = 250; // 250ms
+const ADAPT_INTERVAL = 500; // 500ms
+// Files are read in blocks of this size and cut into chunks, instead of one read per chunk
+const READ_BLOCK_SIZE = 1024 * 1024; // 1MB
+
+export interface SendScheduler {
+  /** Payload size for each message, leaving room for the frame header and encryption overhead. */
+  chunkSize: number;
+  /** Resolves once the channel has room for another chunk, or the channel closes. */
+  waitForCapacity(): Promise<void>;
+  /** Records a chunk handed to the channel. */
+  sent(bytes: number): void;
+}
+
+const sendWindows = new WeakMap<RTCDataChannel, number>();
+
+/**
+ * How much the scheduler currently lets queue up in the channel, for diagnostics.
+ */
+export const getSendWindow = (dc: RTCDataChannel) => {
+  return sendWindows.get(dc) ?? BUFFER_THRESHOLD;
+};
+
+/**
+ * Picks the largest chunk the peer accepts. maxMessageSize is 0 or missing when the browser doesn't
+ * report it, in which case the conservative default is used.
+ */
+export const negotiateChunkSize = (sctp: RTCSctpTransport | null) => {
+  const maxMessageSize = sctp?.maxMessageSize;
+  if (!maxMessageSize || !Number.isFinite(maxMessageSize)) return CHUNK_SIZE;
+  return Math.max(CHUNK_SIZE, Math.min(MAX_CHUNK_SIZE, maxMessageSize - SECURE_FRAME_OVERHEAD - FRAME_HEADER_SIZE));
+};
+
+/**
+ * Paces sending on a data channel. The window of data allowed to queue starts at BUFFER_THRESHOLD
+ * and follows the rate the channel actually drains at.
+ */
+export const createSendScheduler = (sctp: RTCSctpTransport | null, dc: RTCDataChannel): SendScheduler => {
+  let window = BUFFER_THRESHOLD;
+  let totalSent = 0;
+  let lastAdapt = Date.now();
+  let lastDrained = 0;
+
+  const applyWindow = () => {
+    sendWindows.set(dc, window);
+    dc.bufferedAmountLowThreshold = Math.floor(window / 2);
+  };
+  applyWindow();
+
+  const adapt = () => {
+    const now = Date.now();
+    const elapsed = now - lastAdapt;
+    if (elapsed < ADAPT_INTERVAL) return;
+
+    const drained = totalSent - dc.bufferedAmount;
+    const rate = (drained - lastDrained) / (elapsed / 1000);
+    window = Math.min(MAX_SEND_WINDOW, Math.max(BUFFER_THRESHOLD, Math.round(rate * (WINDOW_DURATION / 1000))));
+    lastAdapt = now;
+    lastDrained = drained;
+    applyWindow();
+  };
+
+  return {
+    chunkSize: negotiateChunkSize(sctp),
+    waitForCapacity: () => {
+      if (dc.bufferedAmount <= window || dc.readyState !== 'open') return Promise.resolve();
+      return new Promise((resolve) => {
+        const done = () => {
+          dc.removeEventListener('bufferedamountlow', done);
+          dc.removeEventListener('close', done);
+          resolve();
+        };
+        dc.addEventListener('bufferedamountlow', done);
+        dc.addEventListener('close', done);
+      });
+    },
+    sent: (bytes) => {
+      // bufferedAmount counts encrypted frames, so count them the same way
+      totalSent += bytes + SECURE_FRAME_OVERHEAD;
+      adapt();
+    },
+  };
+};
+
+/**
+ * Reads a file from the given offset in chunks of exactly chunkSize bytes (the last one may be shorter).
+ */
+export async function* readChunks(file: Blob, offset: number, chunkSize: number): AsyncGenerator<Uint8Array> {
+  const blockSize = Math.max(chunkSize, Math.floor(READ_BLOCK_SIZE / chunkSize) * chunkSize);
+  for (let position = offset; position < file.size; position += blockSize) {
+    const block = new Uint8Array(await file.slice(position, position + blockSize).arrayBuffer());
+    for (let start = 0; start < block.byteLength; start += chunkSize) {
+      yield block.subarray(start, start + chunkSize);
+    }
+  }
+}
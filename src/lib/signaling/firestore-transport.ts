@@ -0,0 +1,131 @@
+import { doc, onSnapshot, updateDoc, arrayUnion, deleteDoc, deleteField, serverTimestamp, runTransaction, Timestamp, DocumentData, Firestore } from 'firebase/firestore';
+import { generatePairingCode } from '../pairing-code';
+import { MAX_CLAIM_ATTEMPTS, OFFER_TTL, PAIRING_CODE_TTL, SignalingError, SignalingSession, SignalingTransport } from '.';
+
+const expiresIn = (ms: number) => Timestamp.fromMillis(Date.now() + ms);
+
+/**
+ * Whether a pairing code document has lapsed. Expired documents are treated as if they didn't exist.
+ */
+export const isSessionExpired = (data: DocumentData) => {
+  return !data.expiresAt || data.expiresAt.toMillis() < Date.now();
+};
+
+/**
+ * Whether the document carries an offer that is still fresh enough to answer.
+ */
+export const hasLiveOffer = (data: DocumentData) => {
+  return !!data.offer && !isSessionExpired(data) && !!data.offerExpiresAt && data.offerExpiresAt.toMillis() >= Date.now();
+};
+
+const toSession = (data: DocumentData): SignalingSession => {
+  const live = hasLiveOffer(data);
+  return {
+    offer: live ? JSON.parse(data.offer) : undefined,
+    request: live && data.request ? JSON.parse(data.request) : undefined,
+    answer: data.answer ? JSON.parse(data.answer) : undefined,
+    rejected: !!data.rejected,
+    senderCandidates: (data.senderCandidates ?? []).map((candidate: string) => JSON.parse(candidate)),
+    receiverCandidates: (data.receiverCandidates ?? []).map((candidate: string) => JSON.parse(candidate)),
+  };
+};
+
+/**
+ * Signaling through `signaling/{code}` documents in Firestore. The document records the uid that
+ * claimed the code and the uid that sent the current offer; firestore.rules only lets those two
+ * write their own parts of the session. The same user's ID token gets it TURN credentials.
+ */
+export const createFirestoreTransport = (db: Firestore, uid: string, getIdToken: () => Promise<string | null>): SignalingTransport => {
+  const sessionDoc = (code: string) => doc(db, 'signaling', code);
+
+  return {
+    claimCode: async () => {
+      for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+        const code = generatePairingCode();
+        const docRef = sessionDoc(code);
+
+        const claimed = await runTransaction(db, async (transaction) => {
+          const snapshot = await transaction.get(docRef);
+          if (snapshot.exists() && !isSessionExpired(snapshot.data())) return false;
+
+          transaction.set(docRef, {
+            owner: uid,
+            senderCandidates: [],
+            receiverCandidates: [],
+            createdAt: serverTimestamp(),
+            expiresAt: expiresIn(PAIRING_CODE_TTL)
+          });
+          return true;
+        });
+
+        if (claimed) return code;
+      }
+
+      throw new SignalingError('no-free-code', 'Could not find a free pairing code.');
+    },
+
+    renewCode: (code) => {
+      return updateDoc(sessionDoc(code), {
+        expiresAt: expiresIn(PAIRING_CODE_TTL)
+      });
+    },
+
+    releaseCode: (code) => {
+      return deleteDoc(sessionDoc(code));
+    },
+
+    createSession: async (code, offer, request) => {
+      const docRef = sessionDoc(code);
+      await runTransaction(db, async (transaction) => {
+        const snapshot = await transaction.get(docRef);
+        if (!snapshot.exists() || isSessionExpired(snapshot.data())) {
+          throw new SignalingError('unknown-code', 'No device is using this pairing code.');
+        }
+
+        transaction.update(docRef, {
+          offer: JSON.stringify(offer),
+          request: JSON.stringify(request),
+          answer: deleteField(),
+          rejected: false,
+          sender: uid,
+          senderCandidates: [],
+          receiverCandidates: [],
+          offerExpiresAt: expiresIn(OFFER_TTL)
+        });
+      });
+    },
+
+    respond: (code, answer) => {
+      return updateDoc(sessionDoc(code), {
+        answer: JSON.stringify(answer)
+      });
+    },
+
+    reject: (code) => {
+      // Drop the declined offer too, since other senders may read the document once it is rejected
+      return updateDoc(sessionDoc(code), {
+        rejected: true,
+        offer: deleteField(),
+        request: deleteField()
+      });
+    },
+
+    addIceCandidate: (code, candidate, role) => {
+      const field = role === 'sender' ? 'senderCandidates' : 'receiverCandidates';
+      return updateDoc(sessionDoc(code), {
+        [field]: arrayUnion(JSON.stringify(candidate))
+      });
+    },
+
+    subscribe: (code, onChange) => {
+      return onSnapshot(sessionDoc(code), (snapshot) => {
+        const data = snapshot.data();
+        onChange(data && !isSessionExpired(data) ? toSession(data) : null);
+      });
+    },
+
+    getTurnToken: getIdToken,
+
+    close: () => {},
+  };
+};
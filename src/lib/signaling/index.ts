@@ -0,0 +1,87 @@
+import { TransferManifest } from '../transfer-manifest';
+
+// A receiver holds its code as a lease, renewing it while the page is open
+export const PAIRING_CODE_TTL = 10 * 60 * 1000; // 10 minutes
+export const PAIRING_CODE_RENEW_INTERVAL = 4 * 60 * 1000; // 4 minutes
+export const OFFER_TTL = 2 * 60 * 1000; // 2 minutes
+export const MAX_CLAIM_ATTEMPTS = 5;
+
+export type SignalingErrorReason = 'unknown-code' | 'no-free-code' | 'unavailable';
+
+export class SignalingError extends Error {
+  constructor(public reason: SignalingErrorReason, message: string) {
+    super(message);
+    this.name = 'SignalingError';
+  }
+}
+
+/**
+ * What the receiver is shown before deciding whether to accept a connection.
+ */
+export type SessionRequest = {
+  label: string;
+  manifest?: TransferManifest;
+  /** Set when a peer reconnects to finish an interrupted transfer, whichever way it was going. */
+  resumeTransferId?: string;
+  /**
+   * Fingerprint of the caller's identity key. Unverified until the caller signs the session, so it is
+   * only used to pick a contact's policy; a connection that doesn't prove it is dropped.
+   */
+  identity?: string;
+};
+
+export type CandidateRole = 'sender' | 'receiver';
+
+/**
+ * The state of a pairing code as both peers see it. Transports leave out offers that have expired,
+ * so anything here is safe to act on.
+ */
+export type SignalingSession = {
+  offer?: RTCSessionDescriptionInit;
+  request?: SessionRequest;
+  answer?: RTCSessionDescriptionInit;
+  rejected: boolean;
+  senderCandidates: RTCIceCandidateInit[];
+  receiverCandidates: RTCIceCandidateInit[];
+};
+
+/**
+ * Carries offers, answers and ICE candidates between two devices that share a pairing code.
+ * The receiver claims a code and listens on it; the sender writes an offer to that code and waits for an answer.
+ */
+export interface SignalingTransport {
+  /** Claims an unused pairing code for this device. */
+  claimCode(): Promise<string>;
+  /** Extends the lease on a claimed pairing code. */
+  renewCode(code: string): Promise<void>;
+  /** Gives up a pairing code and everything written to it. */
+  releaseCode(code: string): Promise<void>;
+  /** Writes an offer to a code. Fails with an 'unknown-code' SignalingError if nobody holds it. */
+  createSession(code: string, offer: RTCSessionDescriptionInit, request: SessionRequest): Promise<void>;
+  respond(code: string, answer: RTCSessionDescriptionInit): Promise<void>;
+  /** Declines the pending offer so the sender stops waiting for an answer. */
+  reject(code: string): Promise<void>;
+  addIceCandidate(code: string, candidate: RTCIceCandidateInit, role: CandidateRole): Promise<void>;
+  /** Calls back with the session whenever it changes, or null while the code is unclaimed or expired. */
+  subscribe(code: string, onChange: (session: SignalingSession | null) => void): () => void;
+  /** What this device shows the TURN credentials endpoint, or null if it has nothing yet. */
+  getTurnToken(): Promise<string | null>;
+  /** Releases connections held by the transport itself. */
+  close(): void;
+}
+
+export type SignalingBackend = 'firestore' | 'websocket';
+
+export type SignalingConfig = {
+  backend: SignalingBackend;
+  /** WebSocket signaling server, e.g. wss://signal.example.com. Only used by the websocket backend. */
+  url?: string;
+};
+
+/**
+ * Reads the signaling backend from the environment. Defaults to Firestore.
+ */
+export const getSignalingConfig = (): SignalingConfig => {
+  const backend = process.env.NEXT_PUBLIC_SIGNALING_BACKEND === 'websocket' ? 'websocket' : 'firestore';
+  return { backend, url: process.env.NEXT_PUBLIC_SIGNALING_URL };
+};
@@ -0,0 +1,37 @@
+import { CandidateRole, SessionRequest, SignalingErrorReason, SignalingSession } from '.';
+
+/**
+ * Messages exchanged with the self-hosted signaling server (src/signaling-server).
+ *
+ * Every request carries an id that the server echoes in its reply. Claiming a code or writing an offer
+ * returns a token; writes that only the holder of a code, or the sender of its offer, may make must present it,
+ * and so must subscriptions, since a session's SDP and candidates are only for its two peers. A sender
+ * replacing its own offer that is still waiting (to reconnect) presents its token with the new one.
+ * When the server shares TURN_TOKEN_SECRET with the app, claiming or renewing a code also returns a
+ * turnToken, which the app's TURN endpoint accepts in place of a Firebase ID token.
+ */
+
+export const DEFAULT_SIGNALING_PORT = 8787;
+
+// Signaling messages are SDP and candidates; anything bigger is not ours
+export const MAX_SIGNALING_MESSAGE_SIZE = 64 * 1024;
+
+export type ClientMessage = { id: number } & (
+  | { op: 'claim' }
+  | { op: 'renew'; code: string; token: string }
+  | { op: 'release'; code: string; token: string }
+  | { op: 'create'; code: string; token?: string; offer: RTCSessionDescriptionInit; request: SessionRequest }
+  | { op: 'respond'; code: string; token: string; answer: RTCSessionDescriptionInit }
+  | { op: 'reject'; code: string; token: string }
+  | { op: 'candidate'; code: string; token: string; candidate: RTCIceCandidateInit; role: CandidateRole }
+  | { op: 'subscribe'; code: string; token: string }
+  | { op: 'unsubscribe'; code: string }
+);
+
+export type ServerReply = { id: number; ok: true; code?: string; token?: string; turnToken?: string };
+export type ServerFailure = { id: number; ok: false; reason: SignalingErrorReason | 'forbidden' | 'bad-request'; message: string };
+
+export type ServerMessage =
+  | ServerReply
+  | ServerFailure
+  | { event: 'session'; code: string; session: SignalingSession | null };
@@ -0,0 +1,161 @@
+import { SignalingError, SignalingSession, SignalingTransport } from '.';
+import { ClientMessage, ServerMessage, ServerReply } from './protocol';
+
+const RECONNECT_DELAY = 2000;
+
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never;
+type Request = DistributiveOmit<ClientMessage, 'id'>;
+
+/**
+ * Signaling through the self-hosted WebSocket server. Connects on first use and reconnects
+ * (re-subscribing) if the connection drops; requests made while disconnected wait for it.
+ */
+export const createWebSocketTransport = (url: string): SignalingTransport => {
+  let socket: WebSocket | null = null;
+  let closed = false;
+  let nextId = 1;
+  const pending = new Map<number, { resolve: (reply: ServerReply) => void; reject: (error: unknown) => void }>();
+  const outbox: string[] = [];
+  const subscriptions = new Map<string, Set<(session: SignalingSession | null) => void>>();
+  // Tokens prove we hold a code (as receiver) or wrote its offer (as sender)
+  const tokens = new Map<string, string>();
+  // Offers still waiting on their reply; candidates for those codes wait for the token it carries
+  const creating = new Map<string, Promise<void>>();
+  // Comes with our latest claim or renewal, if the server shares a secret with the TURN endpoint
+  let turnToken: string | null = null;
+
+  const drain = () => {
+    if (closed && pending.size === 0) socket?.close();
+  };
+
+  const connect = () => {
+    const ws = new WebSocket(url);
+    socket = ws;
+
+    ws.onopen = () => {
+      subscriptions.forEach((_, code) => {
+        call({ op: 'subscribe', code, token: tokenFor(code) }).catch(() => undefined);
+      });
+      outbox.splice(0).forEach((message) => ws.send(message));
+    };
+
+    ws.onmessage = (event) => {
+      const message: ServerMessage = JSON.parse(event.data);
+      if ('event' in message) {
+        if (!closed) subscriptions.get(message.code)?.forEach((listener) => listener(message.session));
+        return;
+      }
+      const waiter = pending.get(message.id);
+      if (!waiter) return;
+      pending.delete(message.id);
+      if (message.ok) {
+        waiter.resolve(message);
+      } else {
+        const reason = message.reason === 'unknown-code' || message.reason === 'no-free-code' ? message.reason : 'unavailable';
+        waiter.reject(new SignalingError(reason, message.message));
+      }
+      drain();
+    };
+
+    ws.onclose = () => {
+      if (socket === ws) socket = null;
+      outbox.length = 0;
+      pending.forEach(({ reject }) => reject(new SignalingError('unavailable', 'Lost connection to the signaling server.')));
+      pending.clear();
+      if (!closed) setTimeout(() => { if (!closed && !socket) connect(); }, RECONNECT_DELAY);
+    };
+  };
+
+  const call = (body: Request) => {
+    if (closed && socket?.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new SignalingError('unavailable', 'Signaling transport is closed.'));
+    }
+    if (!socket) connect();
+
+    const id = nextId++;
+    const message = JSON.stringify({ ...body, id });
+    return new Promise<ServerReply>((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(message);
+      } else {
+        outbox.push(message);
+      }
+    });
+  };
+
+  const tokenFor = (code: string) => tokens.get(code) ?? '';
+
+  return {
+    claimCode: async () => {
+      const reply = await call({ op: 'claim' });
+      if (!reply.code || !reply.token) {
+        throw new SignalingError('unavailable', 'Signaling server did not return a pairing code.');
+      }
+      tokens.set(reply.code, reply.token);
+      turnToken = reply.turnToken ?? null;
+      return reply.code;
+    },
+
+    renewCode: async (code) => {
+      const reply = await call({ op: 'renew', code, token: tokenFor(code) });
+      if (reply.turnToken) turnToken = reply.turnToken;
+    },
+
+    releaseCode: async (code) => {
+      const token = tokenFor(code);
+      tokens.delete(code);
+      await call({ op: 'release', code, token });
+    },
+
+    createSession: (code, offer, request) => {
+      // Presenting the token of our earlier offer lets us replace it while it is still waiting
+      const created = call({ op: 'create', code, token: tokens.get(code), offer, request }).then((reply) => {
+        if (reply.token) tokens.set(code, reply.token);
+      });
+      creating.set(code, created);
+      created
+        .finally(() => { if (creating.get(code) === created) creating.delete(code); })
+        .catch(() => undefined);
+      return created;
+    },
+
+    respond: async (code, answer) => {
+      await call({ op: 'respond', code, token: tokenFor(code), answer });
+    },
+
+    reject: async (code) => {
+      await call({ op: 'reject', code, token: tokenFor(code) });
+    },
+
+    addIceCandidate: async (code, candidate, role) => {
+      await creating.get(code);
+      await call({ op: 'candidate', code, token: tokenFor(code), candidate, role });
+    },
+
+    subscribe: (code, onChange) => {
+      let listeners = subscriptions.get(code);
+      if (!listeners) {
+        listeners = new Set();
+        subscriptions.set(code, listeners);
+        call({ op: 'subscribe', code, token: tokenFor(code) }).catch(() => undefined);
+      }
+      listeners.add(onChange);
+
+      return () => {
+        const current = subscriptions.get(code);
+        if (!current?.delete(onChange) || current.size > 0) return;
+        subscriptions.delete(code);
+        if (socket?.readyState === WebSocket.OPEN) call({ op: 'unsubscribe', code }).catch(() => undefined);
+      };
+    },
+
+    getTurnToken: async () => turnToken,
+
+    close: () => {
+      closed = true;
+      // Let requests made while tearing down (like releasing the code) go out first
+      setTimeout(drain, 0);
+    },
+  };
+};
@@ -0,0 +1,46 @@
+/**
+ * Text snippets and links sent between peers, without going through a file.
+ */
+
+// Keeps a TEXT frame well under the smallest message size a peer accepts
+export const MAX_TEXT_MESSAGE_SIZE = 8 * 1024; // 8KB
+// Older messages drop off the receiver's history
+export const MAX_TEXT_HISTORY = 50;
+
+export type TextMessage = {
+  id: string;
+  text: string;
+  receivedAt: number;
+};
+
+const encoder = new TextEncoder();
+
+/**
+ * Size of the text once encoded, which is what MAX_TEXT_MESSAGE_SIZE limits.
+ */
+export const getTextSize = (text: string) => encoder.encode(text).byteLength;
+
+export const createTextMessage = (text: string): TextMessage => {
+  return { id: crypto.randomUUID(), text, receivedAt: Date.now() };
+};
+
+/**
+ * Adds a message to the front of the history, dropping the oldest past MAX_TEXT_HISTORY.
+ */
+export const addTextMessage = (history: TextMessage[], message: TextMessage) => {
+  return [message, ...history].slice(0, MAX_TEXT_HISTORY);
+};
+
+/**
+ * Returns the text as a URL if it is nothing but a web link, so it can be shown as one.
+ */
+export const parseLink = (text: string) => {
+  const trimmed = text.trim();
+  if (/\s/.test(trimmed)) return null;
+  try {
+    const url = new URL(trimmed);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,90 @@
+// Speed is averaged over this window so it reacts within seconds but doesn't jump with every chunk
+export const THROUGHPUT_WINDOW = 5000; // 5s
+export const THROUGHPUT_SAMPLE_INTERVAL = 1000; // 1s
+// Points kept for the speed chart: one minute at one sample per second
+const MAX_HISTORY = 60;
+// Chunks arriving closer together than this are merged into one entry of the window
+const RECORD_RESOLUTION = 100; // 100ms
+
+export type ThroughputPoint = {
+  time: number;
+  /** Bytes per second. */
+  rate: number;
+};
+
+export interface ThroughputEstimator {
+  /** Starts measuring again from the given byte count, e.g. when a transfer starts or resumes. */
+  reset(bytes: number): void;
+  /** Records the total number of bytes transferred so far. */
+  record(bytes: number): void;
+  bytes(): number;
+  rate(): number;
+  /** Appends the current rate to the history and returns it. */
+  sample(): ThroughputPoint[];
+}
+
+export const createThroughputEstimator = (): ThroughputEstimator => {
+  let window: { time: number; bytes: number }[] = [];
+  let history: ThroughputPoint[] = [];
+  let latest = 0;
+
+  const prune = (now: number) => {
+    // Keep one entry from before the window so the rate covers all of it
+    while (window.length > 1 && window[1].time <= now - THROUGHPUT_WINDOW) {
+      window.shift();
+    }
+  };
+
+  const rate = () => {
+    const now = Date.now();
+    prune(now);
+    const first = window[0];
+    if (!first || now <= first.time) return 0;
+    return Math.max(0, (latest - first.bytes) / ((now - first.time) / 1000));
+  };
+
+  return {
+    reset: (bytes) => {
+      latest = bytes;
+      window = [{ time: Date.now(), bytes }];
+      history = [];
+    },
+    record: (bytes) => {
+      const now = Date.now();
+      latest = bytes;
+      const last = window[window.length - 1];
+      // The first entry is where measuring started, so it is never merged into
+      if (window.length > 1 && now - last.time < RECORD_RESOLUTION) {
+        last.bytes = bytes;
+      } else {
+        window.push({ time: now, bytes });
+        prune(now);
+      }
+    },
+    bytes: () => latest,
+    rate,
+    sample: () => {
+      history = [...history, { time: Date.now(), rate: rate() }].slice(-MAX_HISTORY);
+      return history;
+    },
+  };
+};
+
+/**
+ * Seconds until the remaining bytes are through at the given rate, or null while the rate is unknown.
+ */
+export const estimateRemaining = (remainingBytes: number, rate: number) => {
+  if (rate <= 0) return null;
+  return Math.max(0, remainingBytes) / rate;
+};
+
+/**
+ * Formats a duration like "45s", "3m 20s" or "1h 5m".
+ */
+export const formatDuration = (seconds: number) => {
+  const total = Math.ceil(seconds);
+  if (total < 60) return `${total}s`;
+  const minutes = Math.floor(total / 60);
+  if (minutes < 60) return `${minutes}m ${total % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
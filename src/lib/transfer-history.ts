@@ -0,0 +1,130 @@
+import { HISTORY_STORE, clearStore, getAllValues, putValues } from './local-db';
+import { TransferManifest } from './transfer-manifest';
+
+/**
+ * A local log of every file sent or received, one entry per file. It never leaves this device.
+ */
+
+export type TransferDirection = 'sent' | 'received';
+
+/**
+ * - `completed`: arrived and matched the sender's hash.
+ * - `failed`: did not arrive intact, or could not be saved.
+ * - `cancelled`: either peer stopped the transfer first.
+ */
+export type TransferResult = 'completed' | 'failed' | 'cancelled';
+
+export type HistoryEntry = {
+  id: string;
+  transferId: string;
+  /** Path of the file within the transfer. */
+  fileName: string;
+  size: number;
+  /** Contact name, device label or pairing code, whichever was known. */
+  peer: string;
+  direction: TransferDirection;
+  startedAt: number;
+  /** Milliseconds from the start of the transfer to its end, including pauses and reconnects. */
+  duration: number;
+  /** The file's block-tree hash (see integrity.ts), not its plain SHA-256; null if it was never fully hashed. */
+  treeHash: string | null;
+  result: TransferResult;
+};
+
+export type HistoryFilter = {
+  search: string;
+  /** Inclusive range of days, compared against startedAt. */
+  from?: Date;
+  to?: Date;
+};
+
+type FinishedTransfer = {
+  id: string;
+  manifest: TransferManifest;
+  startedAt: number;
+};
+
+/**
+ * Per-file results of a transfer that finished, given the files that did not arrive intact.
+ */
+export const getFileResults = (manifest: TransferManifest, failed: number[]): TransferResult[] => {
+  return manifest.files.map((_, i) => (failed.includes(i) ? 'failed' : 'completed'));
+};
+
+/**
+ * Builds one entry per file of a transfer that has ended, with either one result for every file or one each.
+ */
+export const createHistoryEntries = (
+  { id, manifest, startedAt }: FinishedTransfer,
+  direction: TransferDirection,
+  peer: string,
+  result: TransferResult | TransferResult[],
+  hashes: (string | null)[] = [],
+): HistoryEntry[] => {
+  const duration = Date.now() - startedAt;
+  return manifest.files.map((file, i) => ({
+    id: crypto.randomUUID(),
+    transferId: id,
+    fileName: file.path,
+    size: file.size,
+    peer,
+    direction,
+    startedAt,
+    duration,
+    treeHash: hashes[i] ?? null,
+    result: Array.isArray(result) ? result[i] : result,
+  }));
+};
+
+export const addHistoryEntries = (entries: HistoryEntry[]) => {
+  return putValues(HISTORY_STORE, entries);
+};
+
+/**
+ * Every entry, most recent first.
+ */
+export const getTransferHistory = async () => {
+  const entries = await getAllValues<HistoryEntry>(HISTORY_STORE);
+  return entries.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const clearTransferHistory = () => {
+  return clearStore(HISTORY_STORE);
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+/**
+ * Matches the search against file name, peer and hash, and keeps entries started within the date range.
+ */
+export const filterHistory = (entries: HistoryEntry[], { search, from, to }: HistoryFilter) => {
+  const query = search.trim().toLowerCase();
+  const after = from ? startOfDay(from) : -Infinity;
+  const before = to ? startOfDay(to) + 24 * 60 * 60 * 1000 : Infinity;
+  return entries.filter((entry) => {
+    if (entry.startedAt < after || entry.startedAt >= before) return false;
+    if (!query) return true;
+    return [entry.fileName, entry.peer, entry.treeHash ?? ''].some((field) => field.toLowerCase().includes(query));
+  });
+};
+
+const CSV_COLUMNS: (keyof HistoryEntry)[] = ['startedAt', 'direction', 'fileName', 'size', 'peer', 'duration', 'treeHash', 'result', 'transferId'];
+
+// File names come from the peer, so keep spreadsheets from reading one as a formula
+const toCsvField = (value: string) => {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const historyToCsv = (entries: HistoryEntry[]) => {
+  const rows = entries.map((entry) => CSV_COLUMNS.map((column) => {
+    const value = entry[column];
+    if (column === 'startedAt') return new Date(entry.startedAt).toISOString();
+    return toCsvField(value === null ? '' : String(value));
+  }).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+export const historyToJson = (entries: HistoryEntry[]) => {
+  return JSON.stringify(entries.map((entry) => ({ ...entry, startedAt: new Date(entry.startedAt).toISOString() })), null, 2);
+};
@@ -0,0 +1,112 @@
+export type ManifestEntry = {
+  path: string;
+  size: number;
+  type: string;
+};
+
+export type TransferManifest = {
+  files: ManifestEntry[];
+  totalSize: number;
+};
+
+/**
+ * Returns the path of a file relative to the picked folder, or its name for single picks.
+ */
+export const getRelativePath = (file: File) => {
+  return file.webkitRelativePath || file.name;
+};
+
+/**
+ * Wraps manifest entries with their total size.
+ */
+export const createManifest = (entries: ManifestEntry[]): TransferManifest => {
+  return {
+    files: entries,
+    totalSize: entries.reduce((total, entry) => total + entry.size, 0),
+  };
+};
+
+/**
+ * Describes a set of files so the receiver can split the incoming stream back into files.
+ */
+export const buildManifest = (files: File[]) => {
+  return createManifest(files.map((file) => ({
+    path: getRelativePath(file),
+    size: file.size,
+    type: file.type || 'application/octet-stream',
+  })));
+};
+
+const isManifestEntry = (value: unknown): value is ManifestEntry => {
+  const entry = value as ManifestEntry | null;
+  return typeof entry === 'object' && entry !== null
+    && typeof entry.path === 'string'
+    && typeof entry.type === 'string'
+    && Number.isSafeInteger(entry.size) && entry.size >= 0;
+};
+
+/**
+ * Checks a manifest received from a peer, or returns null if it is malformed. The total is worked
+ * out from the entries rather than taken on trust, since it decides what gets auto-accepted.
+ */
+export const parseManifest = (value: unknown): TransferManifest | null => {
+  const files = (value as { files?: unknown } | null)?.files;
+  if (!Array.isArray(files) || !files.every(isManifestEntry)) return null;
+
+  const manifest = createManifest(files.map(({ path, size, type }) => ({ path, size, type })));
+  return Number.isSafeInteger(manifest.totalSize) ? manifest : null;
+};
+
+/**
+ * Returns the byte offset at which each manifest entry starts in the transfer stream.
+ */
+export const getFileOffsets = (manifest: TransferManifest) => {
+  let offset = 0;
+  return manifest.files.map((entry) => {
+    const start = offset;
+    offset += entry.size;
+    return start;
+  });
+};
+
+/**
+ * Returns the last segment of a relative path.
+ */
+export const getBaseName = (path: string) => {
+  return path.split('/').pop() || path;
+};
+
+/**
+ * Formats a byte count for display.
+ */
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+/**
+ * Resolves a file handle inside a directory, creating intermediate folders from its relative path.
+ */
+export const resolveFileHandle = async (root: FileSystemDirectoryHandle, path: string) => {
+  const segments = path.split('/').filter(Boolean);
+  const name = segments.pop() || 'file';
+
+  let dir = root;
+  for (const segment of segments) {
+    dir = await dir.getDirectoryHandle(segment, { create: true });
+  }
+
+  return dir.getFileHandle(name, { create: true });
+};
+
+/**
+ * Writes a file into a directory handle at its relative path.
+ */
+export const writeToDirectory = async (root: FileSystemDirectoryHandle, path: string, blob: Blob) => {
+  const handle = await resolveFileHandle(root, path);
+  const writable = await handle.createWritable();
+  await writable.write(blob);
+  await writable.close();
+};
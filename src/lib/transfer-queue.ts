@@ -0,0 +1,48 @@
+import { TransferManifest, buildManifest, getBaseName } from './transfer-manifest';
+import { createTransferId } from './transfer-session';
+
+/**
+ * Files waiting to be sent. Each entry becomes one transfer, sent in queue order once the
+ * previous one has been received.
+ */
+export type QueuedTransfer = {
+  /** Becomes the transfer ID once the entry is sent. */
+  id: string;
+  files: File[];
+  manifest: TransferManifest;
+};
+
+export const createQueuedTransfer = (files: File[]): QueuedTransfer => {
+  return { id: createTransferId(), files, manifest: buildManifest(files) };
+};
+
+/**
+ * Moves an entry one place towards the front (-1) or the back (1) of the queue.
+ */
+export const moveQueuedTransfer = (queue: QueuedTransfer[], id: string, direction: -1 | 1) => {
+  const from = queue.findIndex((entry) => entry.id === id);
+  const to = from + direction;
+  if (from === -1 || to < 0 || to >= queue.length) return queue;
+
+  const next = [...queue];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+};
+
+export const removeQueuedTransfer = (queue: QueuedTransfer[], id: string) => {
+  return queue.filter((entry) => entry.id !== id);
+};
+
+/**
+ * Everything in the queue as one manifest, to show the recipient what is coming.
+ */
+export const getQueueManifest = (queue: QueuedTransfer[]) => {
+  return queue.length > 0 ? buildManifest(queue.flatMap((entry) => entry.files)) : undefined;
+};
+
+/**
+ * A short label for a transfer, e.g. "report.pdf" or "12 files".
+ */
+export const describeTransfer = (manifest: TransferManifest) => {
+  return manifest.files.length === 1 ? getBaseName(manifest.files[0].path) : `${manifest.files.length} files`;
+};
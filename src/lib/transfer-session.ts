@@ -0,0 +1,299 @@
+import { TransferManifest, getFileOffsets } from './transfer-manifest';
+import { FileSink } from './file-sink';
+import { BlockHasher, FileDigest, createBlockHasher, findMismatchedBlocks, hashFile } from './integrity';
+
+// The receiver acknowledges what it has written every ACK_INTERVAL bytes, and the sender keeps
+// at most SEND_WINDOW bytes unacknowledged, so a slow disk slows the sender instead of filling memory
+export const ACK_INTERVAL = 1024 * 1024; // 1MB
+export const SEND_WINDOW = 16 * 1024 * 1024; // 16MB
+
+/**
+ * Receiver-side state of a transfer. Lives outside the data channel so it survives reconnects.
+ */
+export type IncomingTransfer = {
+  id: string;
+  manifest: TransferManifest;
+  sink: FileSink;
+  /** One entry per finished file: its contents for in-memory sinks, null once written to disk. */
+  completedFiles: (Blob | null)[];
+  /** Digests computed over the received data, and the ones the sender announced. */
+  digests: FileDigest[];
+  expectedDigests: FileDigest[];
+  hasher: BlockHasher;
+  currentIndex: number;
+  currentReceived: number;
+  /** Bytes received in order from the start; chunks past a gap wait in outOfOrder. */
+  bytesReceived: number;
+  outOfOrder: Map<number, Uint8Array>;
+  /** Offset covered by the last acknowledgement sent. */
+  acknowledged: number;
+  /** The sender has sent everything, though chunks on other lanes may still be arriving. */
+  eofReceived: boolean;
+  complete: boolean;
+  /** Sink operations run in order on this chain; await it to know everything received is written. */
+  pending: Promise<void>;
+  error: unknown;
+  /** When receiving began, in ms since the epoch; reconnects don't reset it. */
+  startedAt: number;
+};
+
+/**
+ * Sender-side state of a transfer. Kept until the receiver has everything.
+ */
+export type OutgoingTransfer = {
+  id: string;
+  files: File[];
+  manifest: TransferManifest;
+  /** Hashed alongside streaming; each is awaited once its file has been sent. */
+  digests: Promise<FileDigest>[];
+  /** Either peer can pause; the send loop waits on unpaused until someone continues. */
+  paused: boolean;
+  unpaused: (() => void)[];
+  /** Offset the receiver has written up to; the send loop waits on windowOpened once it is SEND_WINDOW ahead. */
+  acknowledged: number;
+  windowOpened: (() => void)[];
+  cancelled: boolean;
+  startedAt: number;
+};
+
+/**
+ * Generates an ID used to match a resumed transfer with the one that was interrupted.
+ */
+export const createTransferId = () => {
+  return crypto.randomUUID();
+};
+
+export const createIncomingTransfer = (id: string, manifest: TransferManifest, sink: FileSink): IncomingTransfer => {
+  const transfer: IncomingTransfer = {
+    id,
+    manifest,
+    sink,
+    completedFiles: [],
+    digests: [],
+    expectedDigests: [],
+    hasher: createBlockHasher(),
+    currentIndex: 0,
+    currentReceived: 0,
+    bytesReceived: 0,
+    outOfOrder: new Map(),
+    acknowledged: 0,
+    eofReceived: false,
+    complete: false,
+    pending: Promise.resolve(),
+    error: null,
+    startedAt: Date.now(),
+  };
+  if (manifest.files.length > 0) {
+    enqueue(transfer, () => sink.openFile(manifest.files[0]));
+  }
+  finalizeCompletedFiles(transfer);
+  return transfer;
+};
+
+// Once a write fails the rest are skipped; the error is surfaced when the transfer ends
+const enqueue = (transfer: IncomingTransfer, task: () => Promise<void>) => {
+  transfer.pending = transfer.pending.then(async () => {
+    if (transfer.error) return;
+    try {
+      await task();
+    } catch (e) {
+      transfer.error = e;
+    }
+  });
+};
+
+/**
+ * Closes every fully received file and opens the next one. Returns true if any file was completed.
+ * Files arrive back-to-back in manifest order, so sizes tell us where each one ends.
+ */
+export const finalizeCompletedFiles = (transfer: IncomingTransfer) => {
+  const { files } = transfer.manifest;
+  let changed = false;
+
+  while (transfer.currentIndex < files.length && transfer.currentReceived >= files[transfer.currentIndex].size) {
+    const next = transfer.currentIndex + 1;
+    const hasher = transfer.hasher;
+    transfer.hasher = createBlockHasher();
+    enqueue(transfer, async () => {
+      transfer.digests.push(await hasher.finish());
+      transfer.completedFiles.push(await transfer.sink.closeFile());
+      if (next < files.length) await transfer.sink.openFile(files[next]);
+    });
+    transfer.currentReceived = 0;
+    transfer.currentIndex = next;
+    changed = true;
+  }
+
+  return changed;
+};
+
+/**
+ * Writes a chunk to the file currently being received. Returns true if a file was completed.
+ */
+const appendChunk = (transfer: IncomingTransfer, data: Uint8Array) => {
+  transfer.currentReceived += data.byteLength;
+  transfer.bytesReceived += data.byteLength;
+  const hasher = transfer.hasher;
+  enqueue(transfer, async () => {
+    // Hash before writing: some sinks take ownership of the buffer
+    await hasher.update(data);
+    await transfer.sink.write(data);
+  });
+  return finalizeCompletedFiles(transfer);
+};
+
+/**
+ * Takes a chunk from any lane. Chunks are written once everything before them has arrived;
+ * ones already received (re-sent after a resume) are dropped. Returns true if a file was completed.
+ */
+export const acceptChunk = (transfer: IncomingTransfer, offset: number, chunk: Uint8Array) => {
+  if (offset < transfer.bytesReceived) return false;
+  if (offset > transfer.bytesReceived) {
+    transfer.outOfOrder.set(offset, chunk);
+    return false;
+  }
+
+  let completed = appendChunk(transfer, chunk);
+  let next = transfer.outOfOrder.get(transfer.bytesReceived);
+  while (next) {
+    transfer.outOfOrder.delete(transfer.bytesReceived);
+    completed = appendChunk(transfer, next) || completed;
+    next = transfer.outOfOrder.get(transfer.bytesReceived);
+  }
+  return completed;
+};
+
+/**
+ * Whether a chunk runs past the end of the manifest the receiver accepted.
+ */
+export const exceedsManifest = (transfer: IncomingTransfer, offset: number, chunk: Uint8Array) => {
+  return offset + chunk.byteLength > transfer.manifest.totalSize;
+};
+
+/**
+ * The offset to acknowledge once the pending chain has written it, or null if too little has
+ * arrived since the last one.
+ */
+export const takeAcknowledgement = (transfer: IncomingTransfer) => {
+  if (transfer.bytesReceived - transfer.acknowledged < ACK_INTERVAL) return null;
+  transfer.acknowledged = transfer.bytesReceived;
+  return transfer.acknowledged;
+};
+
+/**
+ * Whether every byte has arrived and the sender has signalled the end of the transfer.
+ */
+export const isIncomingTransferDone = (transfer: IncomingTransfer) => {
+  return transfer.eofReceived && transfer.bytesReceived >= transfer.manifest.totalSize;
+};
+
+/**
+ * The offset to resume from after a reconnect. Chunks that arrived ahead of a gap are dropped,
+ * since the sender sends everything after this offset again.
+ */
+export const getResumeOffset = (transfer: IncomingTransfer) => {
+  transfer.outOfOrder.clear();
+  return transfer.bytesReceived;
+};
+
+/**
+ * Checks every received file against the sender's digest. Returns the indexes of files that failed.
+ * Call once the pending chain has settled.
+ */
+export const verifyIncomingTransfer = (transfer: IncomingTransfer) => {
+  return transfer.manifest.files
+    .map((_, i) => i)
+    .filter((i) => findMismatchedBlocks(transfer.expectedDigests[i], transfer.digests[i]) !== null);
+};
+
+export const createOutgoingTransfer = (id: string, files: File[], manifest: TransferManifest): OutgoingTransfer => {
+  return {
+    id,
+    files,
+    manifest,
+    digests: hashOutgoingFiles(files),
+    paused: false,
+    unpaused: [],
+    acknowledged: 0,
+    windowOpened: [],
+    cancelled: false,
+    startedAt: Date.now(),
+  };
+};
+
+export const pauseOutgoingTransfer = (transfer: OutgoingTransfer) => {
+  transfer.paused = true;
+};
+
+export const continueOutgoingTransfer = (transfer: OutgoingTransfer) => {
+  transfer.paused = false;
+  transfer.unpaused.splice(0).forEach((resolve) => resolve());
+};
+
+/**
+ * Stops the send loop for good, including one waiting while paused.
+ */
+export const cancelOutgoingTransfer = (transfer: OutgoingTransfer) => {
+  transfer.cancelled = true;
+  continueOutgoingTransfer(transfer);
+  transfer.windowOpened.splice(0).forEach((resolve) => resolve());
+};
+
+/**
+ * Records how far the receiver has written. A resume passes its offset to start the window over,
+ * which also wakes a send loop left waiting by the dropped connection.
+ */
+export const acknowledgeOutgoingTransfer = (transfer: OutgoingTransfer, offset: number, resume = false) => {
+  if (!resume && offset <= transfer.acknowledged) return;
+  transfer.acknowledged = offset;
+  transfer.windowOpened.splice(0).forEach((resolve) => resolve());
+};
+
+/**
+ * Resolves once the transfer is continued or cancelled.
+ */
+export const waitWhilePaused = (transfer: OutgoingTransfer) => {
+  if (!transfer.paused) return Promise.resolve();
+  return new Promise<void>((resolve) => transfer.unpaused.push(resolve));
+};
+
+/**
+ * Resolves once the chunk at the given offset fits in the send window, or the transfer is cancelled.
+ */
+export const waitForSendWindow = (transfer: OutgoingTransfer, offset: number) => {
+  if (offset - transfer.acknowledged < SEND_WINDOW) return Promise.resolve();
+  return new Promise<void>((resolve) => transfer.windowOpened.push(resolve));
+};
+
+/**
+ * Starts hashing every file of an outgoing transfer, one file after another.
+ */
+export const hashOutgoingFiles = (files: File[]) => {
+  let previous: Promise<unknown> = Promise.resolve();
+  return files.map((file) => {
+    const digest = previous.then(() => hashFile(file));
+    previous = digest.catch(() => undefined);
+    return digest;
+  });
+};
+
+/**
+ * Stops writing and discards whatever the sink has not finished.
+ */
+export const abortIncomingTransfer = (transfer: IncomingTransfer) => {
+  transfer.error = transfer.error || new Error('Transfer discarded');
+  return transfer.sink.abort();
+};
+
+/**
+ * Maps an offset in the transfer stream to the file it falls in and the offset within that file.
+ */
+export const locateOffset = (manifest: TransferManifest, offset: number) => {
+  const offsets = getFileOffsets(manifest);
+  for (let i = 0; i < manifest.files.length; i++) {
+    if (offset < offsets[i] + manifest.files[i].size) {
+      return { index: i, fileOffset: offset - offsets[i] };
+    }
+  }
+  return { index: manifest.files.length, fileOffset: 0 };
+};
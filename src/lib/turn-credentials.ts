@@ -0,0 +1,146 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+
+/**
+ * Time-limited TURN credentials in the format coturn's REST API expects (`use-auth-secret`):
+ * the username is `<expiry unix time>:<id>` and the password is base64(HMAC-SHA1(secret, username)).
+ * The relay checks them with the shared secret alone, so nothing has to be stored per user.
+ * They are only handed to callers who prove they are using signaling, and only so often per caller,
+ * so the relay can't be used by anyone who finds the endpoint. TURN_AUTH picks how callers prove it,
+ * and should match the signaling backend:
+ * - `firebase` (default, for the Firestore backend): a Firebase ID token, anonymous users included.
+ *   Needs FIREBASE_API_KEY, the project's web API key, to check them.
+ * - `signaling` (for the self-hosted WebSocket backend): a token the signaling server hands out with
+ *   each pairing code. Needs TURN_TOKEN_SECRET, set to the same value for the app and the signaling server.
+ *
+ * Configured through server-side environment variables:
+ * - TURN_URLS: comma-separated relay URLs, e.g. `turn:turn.example.com:3478,turns:turn.example.com:5349`
+ * - TURN_SECRET: the relay's static-auth-secret
+ * - TURN_TTL: credential lifetime in seconds (default one hour)
+ * - TURN_AUTH, and FIREBASE_API_KEY or TURN_TOKEN_SECRET, as above
+ */
+
+const DEFAULT_TURN_TTL = 60 * 60; // 1 hour
+const TOKEN_LOOKUP_URL = 'https://identitytoolkit.googleapis.com/v1/accounts:lookup';
+export const TURN_RATE_LIMIT = 10; // requests per user per window
+export const TURN_RATE_WINDOW = 60 * 1000; // 1 minute
+
+export type TurnAuth =
+  | { mode: 'firebase'; apiKey: string }
+  | { mode: 'signaling'; tokenSecret: string };
+
+export type TurnConfig = {
+  urls: string[];
+  secret: string;
+  ttl: number;
+  auth: TurnAuth;
+};
+
+export type TurnCredentials = {
+  iceServers: RTCIceServer[];
+  /** Unix time in milliseconds after which the credentials stop working. */
+  expiresAt: number;
+};
+
+const getTurnAuth = (): TurnAuth | null => {
+  if (process.env.TURN_AUTH === 'signaling') {
+    const tokenSecret = process.env.TURN_TOKEN_SECRET;
+    return tokenSecret ? { mode: 'signaling', tokenSecret } : null;
+  }
+  const apiKey = process.env.FIREBASE_API_KEY;
+  return apiKey ? { mode: 'firebase', apiKey } : null;
+};
+
+/**
+ * Reads the TURN relay from the environment. Returns null when no relay is configured, or when
+ * there is nothing to check callers with for the chosen TURN_AUTH.
+ */
+export const getTurnConfig = (): TurnConfig | null => {
+  const urls = (process.env.TURN_URLS ?? '').split(',').map((url) => url.trim()).filter(Boolean);
+  const secret = process.env.TURN_SECRET;
+  const auth = getTurnAuth();
+  if (urls.length === 0 || !secret || !auth) return null;
+
+  const ttl = Number(process.env.TURN_TTL) || DEFAULT_TURN_TTL;
+  return { urls, secret, ttl, auth };
+};
+
+/**
+ * The uid a Firebase ID token belongs to, or null if the token is invalid or has expired.
+ */
+export const verifyIdToken = async (idToken: string, apiKey: string): Promise<string | null> => {
+  const response = await fetch(`${TOKEN_LOOKUP_URL}?key=${encodeURIComponent(apiKey)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ idToken }),
+    cache: 'no-store',
+  });
+  if (!response.ok) return null;
+  const { users } = (await response.json()) as { users?: { localId: string }[] };
+  return users?.[0]?.localId ?? null;
+};
+
+const signTurnToken = (payload: string, tokenSecret: string) => {
+  return createHmac('sha256', tokenSecret).update(payload).digest('base64url');
+};
+
+/**
+ * A token for asking for TURN credentials, handed out by the signaling server with a pairing code:
+ * `<expiry unix time>:<code>:<signature>`. It lasts as long as the code's lease.
+ */
+export const createTurnToken = (code: string, ttl: number, tokenSecret: string, now = Date.now()) => {
+  const payload = `${Math.floor((now + ttl) / 1000)}:${code}`;
+  return `${payload}:${signTurnToken(payload, tokenSecret)}`;
+};
+
+/**
+ * The pairing code a signaling server's TURN token was issued for, or null if it is forged or has expired.
+ */
+export const verifyTurnToken = (token: string, tokenSecret: string, now = Date.now()): string | null => {
+  const [expiry, code, signature] = token.split(':');
+  if (!expiry || !code || !signature) return null;
+
+  const expected = Buffer.from(signTurnToken(`${expiry}:${code}`, tokenSecret));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+  return Number(expiry) * 1000 >= now ? code : null;
+};
+
+/**
+ * Who is asking for credentials (a uid or a pairing code), or null if the token doesn't check out.
+ */
+export const authenticateTurnRequest = async (token: string, auth: TurnAuth): Promise<string | null> => {
+  if (auth.mode === 'signaling') return verifyTurnToken(token, auth.tokenSecret);
+  return verifyIdToken(token, auth.apiKey);
+};
+
+/**
+ * Counts requests per key over a sliding window; returns false once a key is over the limit.
+ * Kept in memory, so each server instance limits on its own.
+ */
+export const createRateLimiter = (limit: number, window: number) => {
+  const requests = new Map<string, number[]>();
+
+  return (key: string, now = Date.now()) => {
+    const recent = (requests.get(key) ?? []).filter((time) => time > now - window);
+    const allowed = recent.length < limit;
+    if (allowed) recent.push(now);
+    requests.set(key, recent);
+
+    // Drop keys that have gone quiet so the map doesn't grow with every user ever seen
+    requests.forEach((times, other) => {
+      if (times[times.length - 1] <= now - window) requests.delete(other);
+    });
+    return allowed;
+  };
+};
+
+export const mintTurnCredentials = (config: TurnConfig, now = Date.now()): TurnCredentials => {
+  const expiry = Math.floor(now / 1000) + config.ttl;
+  const username = `${expiry}:${randomUUID()}`;
+  const credential = createHmac('sha1', config.secret).update(username).digest('base64');
+
+  return {
+    iceServers: [{ urls: config.urls, username, credential }],
+    expiresAt: expiry * 1000,
+  };
+};
@@ -1,3 +1,5 @@
+import { SignalingTransport } from './signaling';
+
 export const RTC_CONFIG: RTCConfiguration = {
   iceServers: [
     { urls: 'stun:stun.l.google.com:19302' },
@@ -8,5 +10,45 @@ export const RTC_CONFIG: RTCConfiguration = {
   ],
 };
 
+// Fallback chunk size when the peer doesn't report its max message size, and the smallest we use
 export const CHUNK_SIZE = 16384; // 16KB
+// Smallest send window; the scheduler grows it with measured throughput
 export const BUFFER_THRESHOLD = 65536; // 64KB
+export const RECONNECT_DELAY = 2000; // 2s
+export const MAX_RECONNECT_ATTEMPTS = 5;
+
+const TURN_CREDENTIALS_URL = '/api/turn';
+// Don't hold up connecting on a slow credentials endpoint
+const TURN_FETCH_TIMEOUT = 5000; // 5s
+// Fetch fresh credentials this long before the current ones expire
+const TURN_REFRESH_MARGIN = 5 * 60 * 1000; // 5 minutes
+
+let cachedTurn: { iceServers: RTCIceServer[]; expiresAt: number | null } | null = null;
+
+/**
+ * The STUN servers plus any TURN relay the server hands out credentials for. The server only
+ * hands them to devices the signaling backend vouches for, so this takes the signaling transport.
+ * Falls back to STUN only if the credentials can't be fetched, so a missing relay never blocks
+ * direct connections.
+ */
+export const getRtcConfig = async (signaling: SignalingTransport): Promise<RTCConfiguration> => {
+  const fresh = cachedTurn && (cachedTurn.expiresAt === null || cachedTurn.expiresAt - TURN_REFRESH_MARGIN > Date.now());
+  if (!fresh) {
+    try {
+      const token = await signaling.getTurnToken();
+      if (!token) throw new Error('No token for the TURN credentials endpoint yet');
+      const response = await fetch(TURN_CREDENTIALS_URL, {
+        cache: 'no-store',
+        headers: { Authorization: `Bearer ${token}` },
+        signal: AbortSignal.timeout(TURN_FETCH_TIMEOUT),
+      });
+      if (!response.ok) throw new Error(`TURN credentials request failed with ${response.status}`);
+      cachedTurn = await response.json();
+    } catch (e) {
+      console.warn('Continuing without a TURN relay:', e);
+      return RTC_CONFIG;
+    }
+  }
+
+  return { ...RTC_CONFIG, iceServers: [...RTC_CONFIG.iceServers!, ...(cachedTurn?.iceServers ?? [])] };
+};
@@ -0,0 +1,192 @@
+import { describe, expect, it } from 'vitest';
+import {
+  FRAME_HEADER_SIZE,
+  FrameError,
+  FrameType,
+  PROTOCOL_VERSION,
+  SUPPORTED_VERSIONS,
+  decodeDigest,
+  decodeFrame,
+  decodeJsonPayload,
+  decodeMetadata,
+  encodeComplete,
+  encodeDigest,
+  encodeFrame,
+  encodeIdentity,
+  encodeJsonFrame,
+  encodeMetadata,
+  encodeText,
+  negotiateVersion,
+  supportsFrameType,
+} from './wire-protocol';
+
+const TRANSFER_ID = '0f8fad5b-d9cb-469f-a165-70867728950e';
+
+describe('encodeFrame / decodeFrame', () => {
+  it('round-trips the header and payload', () => {
+    const payload = new Uint8Array([1, 2, 3, 250]);
+    const frame = decodeFrame(encodeFrame(FrameType.Data, { transferId: TRANSFER_ID, offset: 123456789, payload }));
+
+    expect(frame).toEqual({
+      version: PROTOCOL_VERSION,
+      type: FrameType.Data,
+      transferId: TRANSFER_ID,
+      offset: 123456789,
+      payload,
+    });
+  });
+
+  it('round-trips a frame with no transfer or payload', () => {
+    const frame = decodeFrame(encodeFrame(FrameType.Hello, {}));
+
+    expect(frame.transferId).toBeNull();
+    expect(frame.offset).toBe(0);
+    expect(frame.payload.byteLength).toBe(0);
+  });
+
+  it('writes the given version', () => {
+    expect(decodeFrame(encodeFrame(FrameType.Eof, { transferId: TRANSFER_ID }, 2)).version).toBe(2);
+  });
+
+  it('keeps offsets up to MAX_SAFE_INTEGER', () => {
+    const frame = decodeFrame(encodeFrame(FrameType.Resume, { transferId: TRANSFER_ID, offset: Number.MAX_SAFE_INTEGER }));
+    expect(frame.offset).toBe(Number.MAX_SAFE_INTEGER);
+  });
+
+  it('decodes from an ArrayBuffer and from a view into a larger buffer', () => {
+    const encoded = encodeFrame(FrameType.Data, { transferId: TRANSFER_ID, payload: new Uint8Array([7, 8]) });
+    expect(decodeFrame(encoded.slice().buffer).payload).toEqual(new Uint8Array([7, 8]));
+
+    const padded = new Uint8Array(encoded.byteLength + 8);
+    padded.set(encoded, 4);
+    expect(decodeFrame(padded.subarray(4, 4 + encoded.byteLength)).payload).toEqual(new Uint8Array([7, 8]));
+  });
+
+  it('round-trips JSON payloads', () => {
+    const frame = decodeFrame(encodeJsonFrame(FrameType.Complete, { failed: [1, 3] }, { transferId: TRANSFER_ID }));
+    expect(decodeJsonPayload(frame)).toEqual({ failed: [1, 3] });
+  });
+
+  it('round-trips digests', () => {
+    const digest = { treeHash: 'ab'.repeat(32), blocks: ['cd'.repeat(32)] };
+    const frame = decodeFrame(encodeDigest(TRANSFER_ID, 2, digest, PROTOCOL_VERSION));
+
+    expect(decodeJsonPayload(frame)).toEqual({ index: 2, ...digest });
+    expect(decodeDigest(frame)).toEqual({ index: 2, digest });
+  });
+
+  it('works out the manifest total from its entries', () => {
+    const files = [{ path: 'a/b.txt', size: 3, type: 'text/plain' }, { path: 'c.bin', size: 5, type: 'application/octet-stream' }];
+    const frame = decodeFrame(encodeMetadata(TRANSFER_ID, { files, totalSize: 1 }, PROTOCOL_VERSION));
+
+    expect(decodeMetadata(frame)).toEqual({ files, totalSize: 8 });
+  });
+
+  it('passes through frame types it does not know', () => {
+    const encoded = encodeFrame(FrameType.Data, {});
+    encoded[1] = 200;
+    expect(decodeFrame(encoded).type).toBe(200);
+  });
+});
+
+describe('FrameError', () => {
+  it('rejects frames shorter than the header', () => {
+    expect(() => decodeFrame(new Uint8Array(FRAME_HEADER_SIZE - 1))).toThrow(FrameError);
+  });
+
+  it('rejects frames whose length does not match the header', () => {
+    const encoded = encodeFrame(FrameType.Data, { payload: new Uint8Array(4) });
+    expect(() => decodeFrame(encoded.subarray(0, encoded.byteLength - 1))).toThrow(/does not match header/);
+
+    const extended = new Uint8Array(encoded.byteLength + 1);
+    extended.set(encoded);
+    expect(() => decodeFrame(extended)).toThrow(/does not match header/);
+  });
+
+  it('rejects offsets above MAX_SAFE_INTEGER', () => {
+    const encoded = encodeFrame(FrameType.Data, {});
+    new DataView(encoded.buffer).setBigUint64(20, BigInt(Number.MAX_SAFE_INTEGER) + 1n);
+    expect(() => decodeFrame(encoded)).toThrow(/out of range/);
+  });
+
+  it('refuses to encode offsets that are negative, fractional or unsafe', () => {
+    for (const offset of [-1, 1.5, Number.MAX_SAFE_INTEGER + 1]) {
+      expect(() => encodeFrame(FrameType.Data, { offset })).toThrow(FrameError);
+    }
+  });
+
+  it('refuses to encode transfer IDs that are not UUIDs', () => {
+    expect(() => encodeFrame(FrameType.Data, { transferId: 'not-a-uuid' })).toThrow(/not a UUID/);
+    expect(() => encodeFrame(FrameType.Data, { transferId: `${TRANSFER_ID}0` })).toThrow(FrameError);
+  });
+
+  it('rejects manifests with bad paths or sizes', () => {
+    const entry = { path: 'a.txt', size: 1, type: 'text/plain' };
+    const manifests = [
+      {},
+      { files: [{ ...entry, path: 7 }] },
+      { files: [{ ...entry, size: -1 }] },
+      { files: [{ ...entry, size: 1.5 }] },
+      { files: [{ ...entry, size: '1' }] },
+      { files: [{ ...entry, size: Number.MAX_SAFE_INTEGER }, entry] },
+    ];
+    for (const manifest of manifests) {
+      const frame = decodeFrame(encodeJsonFrame(FrameType.Metadata, manifest, { transferId: TRANSFER_ID }));
+      expect(() => decodeMetadata(frame)).toThrow(FrameError);
+    }
+  });
+
+  it('rejects malformed JSON payloads', () => {
+    const frame = decodeFrame(encodeFrame(FrameType.Text, { payload: new TextEncoder().encode('{') }));
+    expect(() => decodeJsonPayload(frame)).toThrow(FrameError);
+  });
+});
+
+describe('negotiateVersion', () => {
+  it('picks the newest version both peers speak', () => {
+    expect(negotiateVersion([5, 4, 3], [4, 3, 2])).toBe(4);
+    expect(negotiateVersion([3], [5, 4, 3, 2, 1])).toBe(3);
+  });
+
+  it('does not depend on the order versions are listed in', () => {
+    expect(negotiateVersion([1, 2, 3], [3, 1])).toBe(3);
+  });
+
+  it('returns null when there is no common version', () => {
+    expect(negotiateVersion([5, 4], [3, 2])).toBeNull();
+    expect(negotiateVersion([5], [])).toBeNull();
+  });
+
+  it('still talks to peers on every earlier version', () => {
+    expect(SUPPORTED_VERSIONS[0]).toBe(PROTOCOL_VERSION);
+    for (let version = 1; version <= PROTOCOL_VERSION; version++) {
+      expect(negotiateVersion(SUPPORTED_VERSIONS, [version])).toBe(version);
+    }
+  });
+});
+
+describe('supportsFrameType', () => {
+  it('knows which version added each frame type', () => {
+    expect(supportsFrameType(1, FrameType.Data)).toBe(true);
+    expect(supportsFrameType(1, FrameType.Complete)).toBe(false);
+    expect(supportsFrameType(2, FrameType.Complete)).toBe(true);
+    expect(supportsFrameType(2, FrameType.Pause)).toBe(false);
+    expect(supportsFrameType(3, FrameType.Cancel)).toBe(true);
+    expect(supportsFrameType(3, FrameType.Text)).toBe(false);
+    expect(supportsFrameType(4, FrameType.Identity)).toBe(false);
+    expect(supportsFrameType(5, FrameType.Identity)).toBe(true);
+    expect(supportsFrameType(5, FrameType.Ack)).toBe(false);
+    expect(supportsFrameType(6, FrameType.Ack)).toBe(true);
+  });
+
+  it('writes frames in the negotiated version', () => {
+    expect(decodeFrame(encodeText('hi', 4)).version).toBe(4);
+    expect(decodeFrame(encodeComplete(TRANSFER_ID, [], 2)).version).toBe(2);
+  });
+
+  it('refuses to encode frame types the version does not have', () => {
+    expect(() => encodeComplete(TRANSFER_ID, [], 1)).toThrow(FrameError);
+    expect(() => encodeText('hi', 3)).toThrow(FrameError);
+    expect(() => encodeIdentity({ publicKey: '', signature: '' }, 4)).toThrow(FrameError);
+  });
+});
@@ -0,0 +1,237 @@
+import { TransferManifest, parseManifest } from './transfer-manifest';
+import { FileDigest } from './integrity';
+import { IdentityPayload } from './identity';
+
+/**
+ * Binary frames exchanged over the (already encrypted) data channels.
+ *
+ * Every frame starts with a fixed 32-byte header, big-endian:
+ *
+ *   0  u8   protocol version
+ *   1  u8   frame type
+ *   2  u16  flags, reserved and zero for now
+ *   4  16B  transfer ID (a UUID, all zeros when the frame isn't about a transfer)
+ *   20 u64  offset in the transfer stream
+ *   28 u32  payload length
+ *   32      payload: raw bytes for data frames, UTF-8 JSON for the rest
+ *
+ * The header layout never changes, so a peer can always read the version and HELLO frames. Newer
+ * versions add frame types or payload fields; frames of a type a peer doesn't know are ignored.
+ * After HELLO every frame is written in the negotiated version, and frame types newer than it
+ * are never sent (see supportsFrameType).
+ */
+
+// Version 2 added COMPLETE, which queued transfers wait for before the next one starts; 3 added PAUSE,
+// CONTINUE and CANCEL; 4 added TEXT; 5 added IDENTITY; 6 added ACK
+export const PROTOCOL_VERSION = 6;
+// Versions this build can speak, newest first
+export const SUPPORTED_VERSIONS = [6, 5, 4, 3, 2, 1];
+
+export const FRAME_HEADER_SIZE = 32;
+const TRANSFER_ID_SIZE = 16;
+
+export const FrameType = {
+  /** Sent by both peers once the channel is secure, listing the versions they speak. */
+  Hello: 0,
+  Metadata: 1,
+  Data: 2,
+  Digest: 3,
+  Eof: 4,
+  /** Sender asks how far the receiver got before a reconnect. */
+  ResumeQuery: 5,
+  /** Receiver tells the sender to stream from the header offset. */
+  Resume: 6,
+  /** Receiver lost the partial data; the sender starts the transfer over. */
+  Restart: 7,
+  /** Receiver has written and verified everything; the sender may start its next transfer. */
+  Complete: 8,
+  /** Either peer asks the sender to stop streaming until CONTINUE. */
+  Pause: 9,
+  Continue: 10,
+  /** Either peer abandons the transfer; the receiver discards what it has. */
+  Cancel: 11,
+  /** A text snippet or link, outside of any transfer. */
+  Text: 12,
+  /** The sender's long-lived identity key and its signature over this session. */
+  Identity: 13,
+  /** Receiver has written everything before the header offset; the sender only runs so far ahead of it. */
+  Ack: 14,
+} as const;
+
+export type FrameType = (typeof FrameType)[keyof typeof FrameType];
+
+// The version each frame type was added in; the rest have been there since version 1
+const FRAME_TYPE_VERSIONS: Partial<Record<FrameType, number>> = {
+  [FrameType.Complete]: 2,
+  [FrameType.Pause]: 3,
+  [FrameType.Continue]: 3,
+  [FrameType.Cancel]: 3,
+  [FrameType.Text]: 4,
+  [FrameType.Identity]: 5,
+  [FrameType.Ack]: 6,
+};
+
+/**
+ * Whether a peer speaking the given version knows the frame type.
+ */
+export const supportsFrameType = (version: number, type: FrameType) => version >= (FRAME_TYPE_VERSIONS[type] ?? 1);
+
+export type HelloPayload = { versions: number[] };
+export type DigestPayload = FileDigest & { index: number };
+/** Indexes of files that failed verification or could not be saved. */
+export type CompletePayload = { failed: number[] };
+export type TextPayload = { text: string };
+
+export type Frame = {
+  version: number;
+  /** A number outside FrameType for frame types added by newer versions. */
+  type: number;
+  transferId: string | null;
+  offset: number;
+  payload: Uint8Array;
+};
+
+export class FrameError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FrameError';
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const encodeTransferId = (id: string | null, target: Uint8Array) => {
+  if (!id) return;
+  const hex = id.replace(/-/g, '');
+  if (!/^[0-9a-f]{32}$/i.test(hex)) throw new FrameError(`Transfer ID is not a UUID: ${id}`);
+  for (let i = 0; i < TRANSFER_ID_SIZE; i++) {
+    target[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+};
+
+const decodeTransferId = (bytes: Uint8Array) => {
+  if (bytes.every((byte) => byte === 0)) return null;
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+export const encodeFrame = (
+  type: FrameType,
+  { transferId = null, offset = 0, payload = new Uint8Array(0) }: { transferId?: string | null; offset?: number; payload?: Uint8Array },
+  version = PROTOCOL_VERSION
+) => {
+  if (!Number.isSafeInteger(offset) || offset < 0) throw new FrameError(`Invalid offset: ${offset}`);
+  if (!supportsFrameType(version, type)) throw new FrameError(`Frame type ${type} does not exist in version ${version}`);
+
+  const frame = new Uint8Array(FRAME_HEADER_SIZE + payload.byteLength);
+  const view = new DataView(frame.buffer);
+  view.setUint8(0, version);
+  view.setUint8(1, type);
+  view.setUint16(2, 0);
+  encodeTransferId(transferId, frame.subarray(4, 4 + TRANSFER_ID_SIZE));
+  view.setBigUint64(20, BigInt(offset));
+  view.setUint32(28, payload.byteLength);
+  frame.set(payload, FRAME_HEADER_SIZE);
+  return frame;
+};
+
+/**
+ * Encodes a frame whose payload is a JSON body.
+ */
+export const encodeJsonFrame = (type: FrameType, body: unknown, header: { transferId?: string | null; offset?: number } = {}, version = PROTOCOL_VERSION) => {
+  return encodeFrame(type, { ...header, payload: encoder.encode(JSON.stringify(body)) }, version);
+};
+
+/**
+ * Reads a frame. The payload is a view into the given buffer, not a copy.
+ */
+export const decodeFrame = (data: ArrayBuffer | Uint8Array): Frame => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (bytes.byteLength < FRAME_HEADER_SIZE) throw new FrameError('Frame is shorter than its header');
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const length = view.getUint32(28);
+  if (bytes.byteLength !== FRAME_HEADER_SIZE + length) {
+    throw new FrameError(`Frame length ${bytes.byteLength} does not match header (${FRAME_HEADER_SIZE + length})`);
+  }
+
+  const offset = view.getBigUint64(20);
+  if (offset > BigInt(Number.MAX_SAFE_INTEGER)) throw new FrameError('Frame offset is out of range');
+
+  return {
+    version: view.getUint8(0),
+    type: view.getUint8(1),
+    transferId: decodeTransferId(bytes.subarray(4, 4 + TRANSFER_ID_SIZE)),
+    offset: Number(offset),
+    payload: bytes.subarray(FRAME_HEADER_SIZE),
+  };
+};
+
+export const decodeJsonPayload = <T>(frame: Frame): T => {
+  try {
+    return JSON.parse(decoder.decode(frame.payload));
+  } catch {
+    throw new FrameError(`Frame of type ${frame.type} has a malformed payload`);
+  }
+};
+
+/**
+ * Picks the newest version both peers speak, or null if they have none in common.
+ */
+export const negotiateVersion = (local: number[], remote: number[]) => {
+  const common = local.filter((version) => remote.includes(version));
+  return common.length > 0 ? Math.max(...common) : null;
+};
+
+// HELLO goes out before there is a negotiated version, so it is always written in ours
+export const encodeHello = () => encodeJsonFrame(FrameType.Hello, { versions: SUPPORTED_VERSIONS } satisfies HelloPayload);
+
+// The rest take the version negotiated with the peer, which drops frames written in any other
+
+export const encodeMetadata = (transferId: string, manifest: TransferManifest, version: number) => {
+  return encodeJsonFrame(FrameType.Metadata, manifest, { transferId }, version);
+};
+
+export const decodeMetadata = (frame: Frame): TransferManifest => {
+  const manifest = parseManifest(decodeJsonPayload<unknown>(frame));
+  if (!manifest) throw new FrameError('Metadata frame has an invalid manifest');
+  return manifest;
+};
+
+export const encodeData = (transferId: string, offset: number, chunk: Uint8Array, version: number) => {
+  return encodeFrame(FrameType.Data, { transferId, offset, payload: chunk }, version);
+};
+
+export const encodeDigest = (transferId: string, index: number, { treeHash, blocks }: FileDigest, version: number) => {
+  return encodeJsonFrame(FrameType.Digest, { index, treeHash, blocks } satisfies DigestPayload, { transferId }, version);
+};
+
+export const decodeDigest = (frame: Frame): { index: number; digest: FileDigest } => {
+  const { index, treeHash, blocks } = decodeJsonPayload<DigestPayload>(frame);
+  return { index, digest: { treeHash, blocks } };
+};
+
+export const encodeEof = (transferId: string, version: number) => encodeFrame(FrameType.Eof, { transferId }, version);
+
+export const encodeResumeQuery = (transferId: string, version: number) => encodeFrame(FrameType.ResumeQuery, { transferId }, version);
+
+export const encodeResume = (transferId: string, offset: number, version: number) => encodeFrame(FrameType.Resume, { transferId, offset }, version);
+
+export const encodeRestart = (transferId: string, version: number) => encodeFrame(FrameType.Restart, { transferId }, version);
+
+export const encodeAck = (transferId: string, offset: number, version: number) => encodeFrame(FrameType.Ack, { transferId, offset }, version);
+
+export const encodeComplete = (transferId: string, failed: number[], version: number) => {
+  return encodeJsonFrame(FrameType.Complete, { failed } satisfies CompletePayload, { transferId }, version);
+};
+
+export const encodePause = (transferId: string, version: number) => encodeFrame(FrameType.Pause, { transferId }, version);
+
+export const encodeContinue = (transferId: string, version: number) => encodeFrame(FrameType.Continue, { transferId }, version);
+
+export const encodeCancel = (transferId: string, version: number) => encodeFrame(FrameType.Cancel, { transferId }, version);
+
+export const encodeText = (text: string, version: number) => encodeJsonFrame(FrameType.Text, { text } satisfies TextPayload, {}, version);
+
+export const encodeIdentity = (identity: IdentityPayload, version: number) => encodeJsonFrame(FrameType.Identity, identity, {}, version);
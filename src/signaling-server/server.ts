@@ -0,0 +1,255 @@
+/**
+ * Self-hosted signaling server for deployments that can't use Firestore.
+ *
+ * Run it next to the app with `npm run signaling` and start the app with
+ * NEXT_PUBLIC_SIGNALING_BACKEND=websocket and NEXT_PUBLIC_SIGNALING_URL pointing at it.
+ * SIGNALING_PORT sets the port (default 8787). Sessions live in memory and follow the same
+ * lease and offer TTLs as the Firestore backend. To let its users through the TURN relay, set
+ * TURN_TOKEN_SECRET here and for the app, with TURN_AUTH=signaling (see src/lib/turn-credentials.ts).
+ */
+import { WebSocketServer, WebSocket } from 'ws';
+import { generatePairingCode } from '../lib/pairing-code';
+import { MAX_CLAIM_ATTEMPTS, OFFER_TTL, PAIRING_CODE_TTL, SessionRequest, SignalingSession } from '../lib/signaling';
+import { ClientMessage, DEFAULT_SIGNALING_PORT, MAX_SIGNALING_MESSAGE_SIZE, ServerFailure, ServerMessage, ServerReply } from '../lib/signaling/protocol';
+import { createTurnToken } from '../lib/turn-credentials';
+
+const SWEEP_INTERVAL = 60 * 1000; // 1 minute
+// Per side, as in firestore.rules; a connection gathers a handful
+const MAX_SESSION_CANDIDATES = 64;
+const turnTokenSecret = process.env.TURN_TOKEN_SECRET;
+
+type Session = {
+  ownerToken: string;
+  senderToken?: string;
+  expiresAt: number;
+  offerExpiresAt?: number;
+  offer?: RTCSessionDescriptionInit;
+  request?: SessionRequest;
+  answer?: RTCSessionDescriptionInit;
+  rejected: boolean;
+  senderCandidates: RTCIceCandidateInit[];
+  receiverCandidates: RTCIceCandidateInit[];
+};
+
+class RequestError extends Error {
+  constructor(public reason: ServerFailure['reason'], message: string) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+const sessions = new Map<string, Session>();
+// Each subscriber with the token it subscribed with
+const subscribers = new Map<string, Map<WebSocket, string>>();
+
+const isExpired = (session: Session) => session.expiresAt < Date.now();
+
+const liveSession = (code: string) => {
+  const session = sessions.get(code);
+  return session && !isExpired(session) ? session : undefined;
+};
+
+const toView = (session: Session | undefined): SignalingSession | null => {
+  if (!session) return null;
+  const live = !!session.offer && !!session.offerExpiresAt && session.offerExpiresAt >= Date.now();
+  return {
+    offer: live ? session.offer : undefined,
+    request: live ? session.request : undefined,
+    answer: session.answer,
+    rejected: session.rejected,
+    senderCandidates: session.senderCandidates,
+    receiverCandidates: session.receiverCandidates,
+  };
+};
+
+const send = (socket: WebSocket, message: ServerMessage) => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const isParticipant = (session: Session, token: string) => {
+  return token === session.ownerToken || (!!session.senderToken && token === session.senderToken);
+};
+
+// A sender whose offer has been replaced stops hearing about the session
+const publish = (code: string) => {
+  const session = liveSession(code);
+  subscribers.get(code)?.forEach((token, socket) => {
+    send(socket, { event: 'session', code, session: session && isParticipant(session, token) ? toView(session) : null });
+  });
+};
+
+const requireSession = (code: string) => {
+  const session = liveSession(code);
+  if (!session) throw new RequestError('unknown-code', 'No device is using this pairing code.');
+  return session;
+};
+
+// No offer is waiting on the receiver, so another sender may make one
+const isOfferOpen = (session: Session) => {
+  return !session.offer || !session.offerExpiresAt || session.offerExpiresAt < Date.now() || session.rejected;
+};
+
+// Lets the holder of a code ask the app for TURN credentials for as long as it holds it
+const turnTokenFor = (code: string) => {
+  return turnTokenSecret ? { turnToken: createTurnToken(code, PAIRING_CODE_TTL, turnTokenSecret) } : {};
+};
+
+// Only the device holding a code may answer, reject or renew it
+const requireOwner = (code: string, token: string) => {
+  const session = requireSession(code);
+  if (session.ownerToken !== token) throw new RequestError('forbidden', 'This pairing code belongs to another device.');
+  return session;
+};
+
+const handle = (socket: WebSocket, message: ClientMessage): Omit<ServerReply, 'id' | 'ok'> => {
+  switch (message.op) {
+    case 'claim': {
+      for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+        const code = generatePairingCode();
+        if (liveSession(code)) continue;
+
+        const token = crypto.randomUUID();
+        sessions.set(code, {
+          ownerToken: token,
+          expiresAt: Date.now() + PAIRING_CODE_TTL,
+          rejected: false,
+          senderCandidates: [],
+          receiverCandidates: [],
+        });
+        publish(code);
+        return { code, token, ...turnTokenFor(code) };
+      }
+      throw new RequestError('no-free-code', 'Could not find a free pairing code.');
+    }
+
+    case 'renew': {
+      requireOwner(message.code, message.token).expiresAt = Date.now() + PAIRING_CODE_TTL;
+      return turnTokenFor(message.code);
+    }
+
+    case 'release': {
+      requireOwner(message.code, message.token);
+      sessions.delete(message.code);
+      publish(message.code);
+      return {};
+    }
+
+    case 'create': {
+      const session = requireSession(message.code);
+      if (!isOfferOpen(session) && message.token !== session.senderToken) {
+        throw new RequestError('forbidden', 'Another device is already connecting to this code.');
+      }
+      const token = crypto.randomUUID();
+      Object.assign(session, {
+        senderToken: token,
+        offer: message.offer,
+        request: message.request,
+        answer: undefined,
+        rejected: false,
+        senderCandidates: [],
+        receiverCandidates: [],
+        offerExpiresAt: Date.now() + OFFER_TTL,
+      });
+      publish(message.code);
+      return { token };
+    }
+
+    case 'respond': {
+      requireOwner(message.code, message.token).answer = message.answer;
+      publish(message.code);
+      return {};
+    }
+
+    case 'reject': {
+      requireOwner(message.code, message.token).rejected = true;
+      publish(message.code);
+      return {};
+    }
+
+    case 'candidate': {
+      const session = requireSession(message.code);
+      const allowed = message.role === 'sender' ? session.senderToken : session.ownerToken;
+      if (!allowed || allowed !== message.token) {
+        throw new RequestError('forbidden', 'Not a party to this session.');
+      }
+      const candidates = message.role === 'sender' ? session.senderCandidates : session.receiverCandidates;
+      if (candidates.length >= MAX_SESSION_CANDIDATES) {
+        throw new RequestError('bad-request', 'Too many candidates for this session.');
+      }
+      candidates.push(message.candidate);
+      publish(message.code);
+      return {};
+    }
+
+    case 'subscribe': {
+      const session = requireSession(message.code);
+      if (!isParticipant(session, message.token)) {
+        throw new RequestError('forbidden', 'Not a party to this session.');
+      }
+      let sockets = subscribers.get(message.code);
+      if (!sockets) {
+        sockets = new Map();
+        subscribers.set(message.code, sockets);
+      }
+      sockets.set(socket, message.token);
+      send(socket, { event: 'session', code: message.code, session: toView(session) });
+      return {};
+    }
+
+    case 'unsubscribe': {
+      unsubscribe(socket, message.code);
+      return {};
+    }
+
+    default:
+      throw new RequestError('bad-request', 'Unknown operation.');
+  }
+};
+
+const unsubscribe = (socket: WebSocket, code: string) => {
+  const sockets = subscribers.get(code);
+  sockets?.delete(socket);
+  if (sockets?.size === 0) subscribers.delete(code);
+};
+
+const port = Number(process.env.SIGNALING_PORT) || DEFAULT_SIGNALING_PORT;
+const server = new WebSocketServer({ port, maxPayload: MAX_SIGNALING_MESSAGE_SIZE });
+
+server.on('connection', (socket) => {
+  const subscribed = new Set<string>();
+
+  socket.on('message', (data) => {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      socket.close(1003, 'Malformed message');
+      return;
+    }
+
+    try {
+      const result = handle(socket, message);
+      if (message.op === 'subscribe') subscribed.add(message.code);
+      if (message.op === 'unsubscribe') subscribed.delete(message.code);
+      send(socket, { id: message.id, ok: true, ...result });
+    } catch (e) {
+      const error = e instanceof RequestError ? e : new RequestError('bad-request', 'Invalid request.');
+      send(socket, { id: message.id, ok: false, reason: error.reason, message: error.message });
+    }
+  });
+
+  socket.on('close', () => {
+    subscribed.forEach((code) => unsubscribe(socket, code));
+  });
+});
+
+// Expired codes are already ignored on read; this frees their memory and tells anyone still listening
+setInterval(() => {
+  sessions.forEach((session, code) => {
+    if (!isExpired(session)) return;
+    sessions.delete(code);
+    publish(code);
+  });
+}, SWEEP_INTERVAL);
+
+console.log(`FileJet signaling server listening on port ${port}`);
@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+// Runs against the Firestore emulator: `npm run test:rules` starts one around it
+export default defineConfig({
+  test: {
+    include: ['firestore.rules.test.ts'],
+    // Every test shares the emulator's single database
+    fileParallelism: false,
+    testTimeout: 15000,
+  },
+});